@@ -90,6 +90,32 @@ function asRelativeWorkspaceFolderPath(folder: vscode.WorkspaceFolder): string {
   return normalizeFolderPath(vscode.workspace.asRelativePath(folder.uri, false));
 }
 
+/**
+ * The workspace folders `emergent.bulkValidationFolders` selects, matched by relative path. An empty
+ * selection means every folder; `unmatched` is set when a non-empty selection matched none of them.
+ */
+function resolveBulkValidationFolderUris(selectedFolders: string[]): { folderUris: string[]; unmatched: boolean } {
+  const workspaceFolders = vscode.workspace.workspaceFolders || [];
+  const allFolderUris = workspaceFolders.map((folder) => folder.uri.toString());
+  const selectedSet = new Set(selectedFolders.map((folder) => normalizeFolderPath(folder)).filter(Boolean));
+  if (selectedSet.size === 0) return { folderUris: allFolderUris, unmatched: false };
+  const folderUris = workspaceFolders
+    .filter((folder) => selectedSet.has(asRelativeWorkspaceFolderPath(folder)))
+    .map((folder) => folder.uri.toString());
+  return folderUris.length > 0 ? { folderUris, unmatched: false } : { folderUris: allFolderUris, unmatched: true };
+}
+
+// The server scopes its workspace symbol index to the same folders as a bulk scan.
+function sendWorkspaceSymbolFolders(client: LanguageClient): void {
+  const selectedFolders = vscode.workspace.getConfiguration("emergent").get<string[]>("bulkValidationFolders", []);
+  void client
+    .onReady()
+    .then(() => client.sendNotification("emergent/workspaceSymbolFolders", resolveBulkValidationFolderUris(selectedFolders)))
+    .catch(() => {
+      // Without the notification the server indexes every workspace folder.
+    });
+}
+
 function truncateText(value: string, maxChars: number): string {
   if (value.length <= maxChars) {
     return value;
@@ -520,29 +546,15 @@ class BulkExpressionValidationProvider implements vscode.TreeDataProvider<TreeNo
       void vscode.window.showWarningMessage("Open a workspace folder to run Bulk Expression Validation.");
     }
 
-    const selectedSet = new Set(selectedFolders.map((folder) => normalizeFolderPath(folder)).filter(Boolean));
-    const resolvedFolderUris =
-      selectedSet.size === 0
-        ? workspaceFolders.map((folder) => folder.uri.toString())
-        : workspaceFolders
-            .filter((folder) => selectedSet.has(asRelativeWorkspaceFolderPath(folder)))
-            .map((folder) => folder.uri.toString());
-
-    if (selectedSet.size > 0 && resolvedFolderUris.length === 0) {
+    const { folderUris, unmatched } = resolveBulkValidationFolderUris(selectedFolders);
+    if (unmatched) {
       void vscode.window.showWarningMessage(
         "No entries in emergent.bulkValidationFolders matched workspace folder relative paths. Scanning all folders instead."
       );
-      return {
-        folderUris: workspaceFolders.map((folder) => folder.uri.toString()),
-        autopilotExtension,
-        pilotExtension,
-        mode,
-        perFileMaxProblems: cfg.get<number>("maxNumberOfProblems", 100) ?? 100,
-      };
     }
 
     return {
-      folderUris: resolvedFolderUris,
+      folderUris,
       autopilotExtension,
       pilotExtension,
       mode,
@@ -696,6 +708,14 @@ export function registerBulkExpressionValidation(context: vscode.ExtensionContex
 
   context.subscriptions.push(provider, tree);
 
+  sendWorkspaceSymbolFolders(client);
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("emergent.bulkValidationFolders")) sendWorkspaceSymbolFolders(client);
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => sendWorkspaceSymbolFolders(client))
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand("emergent.startBulkExpressionValidation", async () => {
       const uri = await provider.startSession();
@@ -10,7 +10,7 @@ import { findPddForVersion } from "./pddLoader";
 import { PdesDesign, Pspec, transformPdesToPspec } from "./pdes/transform";
 import { loadPdesSchema } from "./customEditors/PdesEditorProvider";
 import { ExpressionDiagnostic, projectComponentGraph, ProjectionJobInput, SourceRef as ProjectionSourceRef } from "./componentManagerProjection";
-import { componentFileTypeForPath, DEFAULT_AUTOPILOT_EXTENSION, editorViewTypeForPath, normalizeExtension } from "./fileTypes";
+import { componentFileTypeForPath, DEFAULT_AUTOPILOT_EXTENSION, editorViewTypeForPath, extensionFor, normalizeExtension } from "./fileTypes";
 import { coalesceFileChange, FileChangeAction, PendingFileChange, removeFileRecord, replaceFileRecord } from "./componentManagerIndexState";
 
 type SourceRef = ProjectionSourceRef;
@@ -25,6 +25,7 @@ type ProtocolRecord = {
 };
 type ContractRecord = { classification: string; uri: vscode.Uri; requirements: Topic[]; obligations: Topic[]; requirementSources: SourceRef[]; obligationSources: SourceRef[] };
 type Label = { label: string; range: SourceRef["range"] };
+type Subcontract = { classification: string | null; rawClassification: string; range: SourceRef["range"] };
 type Participation = { role: "host" | "join"; classification: string | null; rawClassification?: string; requirements: Label[]; obligations: Label[]; range: SourceRef["range"] };
 type Job = {
   key: string;
@@ -36,6 +37,7 @@ type Job = {
   range: SourceRef["range"];
   bodyRange: SourceRef["range"];
   statements: Participation[];
+  subcontracts: Subcontract[];
 };
 type ManagerDiagnostic = { severity: "error" | "warning"; message: string; source: SourceRef; related?: SourceRef[] };
 type Snapshot = { protocols: Map<string, ProtocolRecord[]>; contracts: Map<string, ContractRecord[]>; jobs: Job[]; expressionFiles: Map<string, { uri: vscode.Uri; jobs: number }> };
@@ -74,6 +76,7 @@ function toRange(range?: SourceRef["range"]): vscode.Range {
   return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
 }
 
+// Mirrored by the server's `termLabel` for the labels its quick fixes insert; change the two together.
 function topicLabel(topic: Topic): string {
   const base = String(topic.name ?? "topic")
     .toLowerCase()
@@ -291,6 +294,8 @@ class ComponentManagerSidebar implements vscode.WebviewViewProvider {
 export class ComponentManager implements vscode.Disposable {
   private snapshot: Snapshot = { protocols: new Map(), contracts: new Map(), jobs: [], expressionFiles: new Map() };
   private readonly diagnosticCollection = vscode.languages.createDiagnosticCollection("component-manager");
+  private readonly indexChangedEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeIndex = this.indexChangedEmitter.event;
   private readonly sidebar: ComponentManagerSidebar;
   private readonly disposables: vscode.Disposable[] = [];
   private directoryWatchers: vscode.FileSystemWatcher[] = [];
@@ -354,7 +359,7 @@ export class ComponentManager implements vscode.Disposable {
 
   dispose(): void {
     if (this.pendingFileChangeTimer) clearTimeout(this.pendingFileChangeTimer);
-    this.directoryWatchers.forEach((watcher) => watcher.dispose()); this.disposables.forEach((disposable) => disposable.dispose()); this.diagnosticCollection.dispose();
+    this.directoryWatchers.forEach((watcher) => watcher.dispose()); this.disposables.forEach((disposable) => disposable.dispose()); this.diagnosticCollection.dispose(); this.indexChangedEmitter.dispose();
   }
   protocols(): ProtocolRecord[] {
     return [...this.snapshot.protocols.values()]
@@ -366,7 +371,21 @@ export class ComponentManager implements vscode.Disposable {
   scanStatus(): ScanStatus { return this.currentScan; }
   jobCount(): number { return this.snapshot.jobs.length; }
   diagnostics(): ManagerDiagnostic[] { return this.collectDiagnostics(this.snapshot); }
-  usageCount(classification: string): number { return this.snapshot.jobs.filter((job) => job.statements.some((statement) => statement.classification === classification)).length; }
+  usageCount(classification: string): number { return this.snapshot.jobs.filter((job) => this.uses(job, classification).length > 0).length; }
+  usageLocations(classification: string): vscode.Location[] {
+    return this.snapshot.jobs.flatMap((job) => this.uses(job, classification).map((range) => new vscode.Location(job.uri, toRange(range))));
+  }
+  definitionLocations(classification: string): vscode.Location[] {
+    const specifications = [...(this.snapshot.contracts.get(classification) ?? []), ...(this.snapshot.protocols.get(classification) ?? [])];
+    return [
+      ...specifications.map((record) => new vscode.Location(record.uri, new vscode.Position(0, 0))),
+      ...this.snapshot.jobs.filter((job) => job.classification === classification).map((job) => new vscode.Location(job.uri, toRange(job.range))),
+    ];
+  }
+  private uses(job: Job, classification: string): Array<SourceRef["range"]> {
+    // Protocols are used by host/join participations and contracts by sub statements.
+    return [...job.statements, ...job.subcontracts].filter((use) => use.classification === classification).map((use) => use.range);
+  }
   expressionTargets(classification: string): ExpressionTarget[] {
     return this.snapshot.jobs
       .filter((job) => job.classification === classification)
@@ -377,11 +396,24 @@ export class ComponentManager implements vscode.Disposable {
       .sort((left, right) => left.label.localeCompare(right.label));
   }
   newContractExpressionUri(contract: ContractRecord): vscode.Uri | undefined {
-    const root = this.componentDirectoryFor(contract.uri);
+    const directory = this.newContractDirectory(contract.classification, contract.uri);
+    return directory && vscode.Uri.joinPath(directory, this.expectedExpressionFilename(contract.classification));
+  }
+  /** Where a contract that does not exist yet would be written, starting from a file in the same component directory. */
+  newContractUris(classification: string, near: vscode.Uri): { specification: vscode.Uri; expression: vscode.Uri } | undefined {
+    const directory = this.newContractDirectory(classification, near);
+    if (!directory) return undefined;
+    return {
+      specification: vscode.Uri.joinPath(directory, this.contractFilename(classification, extensionFor("contractSpecification"))),
+      expression: vscode.Uri.joinPath(directory, this.expectedExpressionFilename(classification)),
+    };
+  }
+  private newContractDirectory(classification: string, near: vscode.Uri): vscode.Uri | undefined {
+    const root = this.componentDirectoryFor(near);
     const template = vscode.workspace.getConfiguration("specification").get<string>("defaultContractExpressionPath", DEFAULT_CONTRACT_EXPRESSION_PATH) ?? DEFAULT_CONTRACT_EXPRESSION_PATH;
-    const directory = renderContractExpressionDirectory(contract.classification, template);
+    const directory = renderContractExpressionDirectory(classification, template);
     if (!root || !directory) return undefined;
-    return vscode.Uri.joinPath(root, ...directory.split("/").filter(Boolean), this.expectedExpressionFilename(contract.classification));
+    return vscode.Uri.joinPath(root, ...directory.split("/").filter(Boolean));
   }
 
   async refresh(): Promise<void> {
@@ -617,10 +649,14 @@ export class ComponentManager implements vscode.Disposable {
   }
 
   private expectedExpressionFilename(classification: string): string {
+    return this.contractFilename(classification, autopilotExtension());
+  }
+
+  private contractFilename(classification: string, extension: string): string {
     const parts = classification.split("/").filter(Boolean);
     const [layer, verb, subject, variation, platform] = parts;
     const format = vscode.workspace.getConfiguration("specification").get<string>("contractFilenameFormat", "{layer}--{verb}--{subject}--{variation}--{platform}") || "{layer}--{verb}--{subject}--{variation}--{platform}";
-    return format.replace(/\{(layer|verb|subject|variation|platform)\}/g, (_match, key) => ({ layer, verb, subject, variation, platform } as Record<string, string>)[key] ?? "") + autopilotExtension();
+    return format.replace(/\{(layer|verb|subject|variation|platform)\}/g, (_match, key) => ({ layer, verb, subject, variation, platform } as Record<string, string>)[key] ?? "") + extension;
   }
 
   private componentDirectoryFor(uri: vscode.Uri): vscode.Uri | undefined {
@@ -695,6 +731,8 @@ export class ComponentManager implements vscode.Disposable {
       byUri.set(uri.toString(), [...(byUri.get(uri.toString()) ?? []), item]);
     }
     byUri.forEach((items, key) => this.diagnosticCollection.set(vscode.Uri.parse(key), items));
+    // Diagnostics are republished every time the snapshot is replaced.
+    this.indexChangedEmitter.fire();
   }
 
   private onSave(document: vscode.TextDocument): void {
@@ -14,8 +14,11 @@ import { registerPspecMigration } from "./pspecMigration";
 import { workspace, ExtensionContext } from "vscode";
 import { loadPddCandidates } from "./pddLoader";
 import { registerBulkExpressionValidation } from "./bulkExpressionValidation";
-import { registerComponentManager } from "./componentManager";
-import { extensionFor, extensionWithoutDot, isFileType } from "./fileTypes";
+import { registerExpressionInlayHints } from "./inlayHints";
+import { ComponentManager, registerComponentManager } from "./componentManager";
+import { registerJobCodeLenses } from "./jobCodeLens";
+import { ContractTerm } from "./valley";
+import { extensionFor, extensionWithoutDot, isFileType, normalizeExtension } from "./fileTypes";
 
 import * as vscode from "vscode";
 
@@ -56,6 +59,15 @@ type SpecCacheDiagnostics = {
   rootRefreshMinutes: number;
 };
 
+function expressionFileWatcherPattern(): string {
+  const cfg = workspace.getConfiguration("emergent");
+  const extensions = [
+    normalizeExtension(cfg.get<string>("autopilotExtension"), ".dla"),
+    normalizeExtension(cfg.get<string>("pilotExtension"), ".dlp"),
+  ].map((extension) => extension.slice(1));
+  return `**/*.{${Array.from(new Set(extensions)).join(",")}}`;
+}
+
 function getStudioConnectionConfig(): StudioConnectionConfig {
   const studio = workspace.getConfiguration("studio");
   const hostname = studio.get<string>("hostname") || "localhost";
@@ -311,8 +323,13 @@ export async function activate(context: ExtensionContext) {
     // Register the server for plain text documents
     documentSelector: [{ scheme: "file", language: "emergent" }],
     synchronize: {
-      // Notify the server about file changes to '.clientrc files contained in the workspace
-      fileEvents: workspace.createFileSystemWatcher("**/.clientrc"),
+      // Notify the server about file changes to '.clientrc files contained in the workspace, to
+      // expression files so the workspace symbol index stays current, and to lint configuration files.
+      fileEvents: [
+        workspace.createFileSystemWatcher("**/.clientrc"),
+        workspace.createFileSystemWatcher("**/.emergentlint.json"),
+        workspace.createFileSystemWatcher(expressionFileWatcherPattern()),
+      ],
     },
     initializationOptions: {
       studio: getStudioConnectionConfig(),
@@ -329,9 +346,12 @@ export async function activate(context: ExtensionContext) {
 
   // Completion and hover are now provided by the language server.
   context.subscriptions.push(
-    vscode.commands.registerCommand("emergent.showSpecificationPanel", () => {
-      void showSpecificationPanel();
-    })
+    vscode.commands.registerCommand(
+      "emergent.showSpecificationPanel",
+      (uri?: vscode.Uri | string, position?: vscode.Position | { line: number; character: number }) => {
+        void showSpecificationPanel(uri, position);
+      }
+    )
   );
   context.subscriptions.push(
     vscode.commands.registerCommand("emergent.reloadSpecifications", () => {
@@ -400,30 +420,6 @@ export async function activate(context: ExtensionContext) {
     })
   );
 
-  // // ###
-  // const tokenTypes = ["class", "interface", "enum", "function", "variable"];
-  // const tokenModifiers = ["declaration", "documentation"];
-  // const legend = new vscode.SemanticTokensLegend(tokenTypes, tokenModifiers);
-
-  // const provider: vscode.DocumentSemanticTokensProvider = {
-  //   provideDocumentSemanticTokens(document: vscode.TextDocument): vscode.ProviderResult<vscode.SemanticTokens> {
-  //     // analyze the document and return semantic tokens
-
-  //     const tokensBuilder = new vscode.SemanticTokensBuilder(legend);
-  //     // on line 1, characters 1-5 are a class declaration
-  //     tokensBuilder.push(new vscode.Range(new vscode.Position(1, 1), new vscode.Position(1, 5)), "class", ["declaration"]);
-  //     return tokensBuilder.build();
-  //   },
-  // };
-
-  // const selector = { language: "java", scheme: "file" }; // register for all Java documents from the local file system
-
-  // vscode.languages.registerDocumentSemanticTokensProvider(selector, provider, legend);
-
-  // const emergentDocumentSemanticTokensProvider = vscode.languages.registerDocumentSemanticTokensProvider(selector, provider, legend);
-  // context.subscriptions.push(emergentDocumentSemanticTokensProvider);
-  // // ###
-
   ecStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
   ecStatusBarItem.command = ecStatusCommandId;
   ecStatusBarItem.show();
@@ -436,14 +432,18 @@ export async function activate(context: ExtensionContext) {
   registerPddEditor(context);
   registerExportProtocolSpec(context);
   registerBulkExpressionValidation(context, client);
-  registerComponentManager(context, client);
+  registerExpressionInlayHints(context, client);
+  const componentManager = registerComponentManager(context, client);
+  registerJobCodeLenses(context, client, componentManager);
   registerSupplierQuickFixes(context);
 
   validateFilenameFormats();
 
   updateStatusBar(ecStatusBarItem, "$(pass) Studio runtime fetch active", false);
 
-  registerSpecificationLinks(context);
+  registerClassificationDefinitions(context, componentManager);
+  registerSpecificationLinks(context, componentManager);
+  registerExtractToContract(context, componentManager);
 }
 
 async function reloadStudioSpecifications() {
@@ -768,8 +768,8 @@ function getDefaultsFromText(text: string) {
 }
 
 type ClassificationInfo =
-  | { type: "contract"; classification: string; position: vscode.Position }
-  | { type: "protocol"; classification: string; position: vscode.Position };
+  | { type: "contract"; classification: string; position: vscode.Position; range: vscode.Range }
+  | { type: "protocol"; classification: string; position: vscode.Position; range: vscode.Range };
 
 type SupplierUnavailableDiagnostic = {
   supplier: string;
@@ -909,6 +909,7 @@ function getClassificationAtPosition(document: vscode.TextDocument, position: vs
         type: "contract",
         classification: `/${layer}/${verb}/${subject}/${variation}/${platform}`,
         position: new vscode.Position(position.line, contract.start),
+        range: new vscode.Range(position.line, contract.start, position.line, contract.end),
       };
     }
   }
@@ -925,6 +926,7 @@ function getClassificationAtPosition(document: vscode.TextDocument, position: vs
         type: "protocol",
         classification: `/${layer}/${subject}/${variation}/${platform}`,
         position: new vscode.Position(position.line, protocol.start),
+        range: new vscode.Range(position.line, protocol.start, position.line, protocol.end),
       };
     }
   }
@@ -932,11 +934,114 @@ function getClassificationAtPosition(document: vscode.TextDocument, position: vs
   return null;
 }
 
-function registerSpecificationLinks(context: vscode.ExtensionContext) {
+function parseSpecificationRoot(rootString: string): vscode.Uri | null {
+  try {
+    return rootString.startsWith("file:") ? vscode.Uri.parse(rootString) : vscode.Uri.file(rootString);
+  } catch {
+    return null;
+  }
+}
+
+function specificationExtensions(type: ClassificationInfo["type"]): string[] {
+  return type === "contract" ? [DEFAULT_CONTRACT_FILE_EXTENSION] : [DEFAULT_PROTOCOL_FILE_EXTENSION, extensionFor("protocolDesign")];
+}
+
+type LocalSpecificationListing = { files?: Thenable<vscode.Uri[]>; watcher: vscode.FileSystemWatcher };
+
+// The specification files under each local root, listed once and again only after a file there is added or removed.
+const localSpecificationListings = new Map<string, LocalSpecificationListing>();
+
+function listLocalSpecifications(type: ClassificationInfo["type"]): Thenable<vscode.Uri[]> {
+  const config = vscode.workspace.getConfiguration("specification");
+  const rootString = config.get<string>(type === "contract" ? "localContractRoot" : "localProtocolRoot", "") ?? "";
+  const rootUri = rootString ? parseSpecificationRoot(rootString) : null;
+  if (!rootUri) {
+    return Promise.resolve([]);
+  }
+  const extensions = Array.from(new Set(specificationExtensions(type).map((extension) => extension.slice(1))));
+  const pattern = new vscode.RelativePattern(rootUri, `**/*.{${extensions.join(",")}}`);
+  const key = `${type}:${rootUri.toString()}:${extensions.join(",")}`;
+  let listing = localSpecificationListings.get(key);
+  if (!listing) {
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, true, false);
+    const created: LocalSpecificationListing = { watcher };
+    const invalidate = () => {
+      created.files = undefined;
+    };
+    watcher.onDidCreate(invalidate);
+    watcher.onDidDelete(invalidate);
+    extensionContext?.subscriptions.push(watcher);
+    localSpecificationListings.set(key, created);
+    listing = created;
+  }
+  if (!listing.files) {
+    listing.files = vscode.workspace.findFiles(pattern);
+  }
+  return listing.files;
+}
+
+async function findLocalSpecifications(info: ClassificationInfo): Promise<vscode.Uri[]> {
+  const names = specificationExtensions(info.type).map(
+    (extension) => `/${buildFilenameFromClassification(info.type, info.classification, { silent: true, extension })}`
+  );
+  const files = await listLocalSpecifications(info.type);
+  return files.filter((uri) => names.some((name) => uri.path.endsWith(name)));
+}
+
+async function findClassificationTargets(
+  document: vscode.TextDocument,
+  info: ClassificationInfo,
+  manager: ComponentManager
+): Promise<vscode.Location[]> {
+  const localSpecifications = await findLocalSpecifications(info);
+  const targets = [
+    ...localSpecifications.map((uri) => new vscode.Location(uri, new vscode.Position(0, 0))),
+    ...manager.definitionLocations(info.classification),
+  ];
+  const seen = new Set<string>();
+  return targets.filter((target) => {
+    // A job header is not its own definition.
+    if (target.uri.toString() === document.uri.toString() && target.range.contains(info.position)) {
+      return false;
+    }
+    const key = `${target.uri.toString()}#${target.range.start.line}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Go to definition on a classification offers the local specification files and the Component Manager
+ * specifications and job expressions that implement it.
+ */
+function registerClassificationDefinitions(context: vscode.ExtensionContext, manager: ComponentManager) {
+  const selector: vscode.DocumentSelector = { language: "emergent", scheme: "file" };
+  const provider: vscode.DefinitionProvider = {
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.LocationLink[]> {
+      const info = getClassificationAtPosition(document, position);
+      if (!info) {
+        return [];
+      }
+      const targets = await findClassificationTargets(document, info, manager);
+      return targets.map((target) => ({ originSelectionRange: info.range, targetUri: target.uri, targetRange: target.range }));
+    },
+  };
+
+  context.subscriptions.push(vscode.languages.registerDefinitionProvider(selector, provider));
+}
+
+/**
+ * Classifications with nothing to go to locally keep the link into the specification panel, which
+ * fetches the specification from the Studio gateway.
+ */
+function registerSpecificationLinks(context: vscode.ExtensionContext, manager: ComponentManager) {
   const selector: vscode.DocumentSelector = { language: "emergent", scheme: "file" };
   const provider: vscode.DocumentLinkProvider = {
-    provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
-      const links: vscode.DocumentLink[] = [];
+    async provideDocumentLinks(document: vscode.TextDocument): Promise<vscode.DocumentLink[]> {
+      const classifications: ClassificationInfo[] = [];
       const contractPattern =
         /(sub|job)\s+(?<raw>(?:\/(?<layer>[^/]*)\/?)?(?<verb>[^/]*)?\/?(?<subject>[^/@(]*)?\/?(?<variation>[^/@(]*)?\/?(?<platform>[^/@(]*))/g;
       const protocolPattern =
@@ -974,14 +1079,7 @@ function registerSpecificationLinks(context: vscode.ExtensionContext) {
           const classificationIndex = match.index + match[0].indexOf(raw);
           const start = new vscode.Position(line, classificationIndex);
           const end = new vscode.Position(line, classificationIndex + raw.length);
-          const args = [document.uri.toString(), { line, character: classificationIndex }];
-          const remoteUri = vscode.Uri.parse(
-            `command:emergent.openSpecificationAtPosition?${encodeURIComponent(JSON.stringify(args))}`
-          );
-          const range = new vscode.Range(start, end);
-
-          const remoteLink = new vscode.DocumentLink(range, remoteUri);
-          links.push(remoteLink);
+          classifications.push({ type, classification, position: start, range: new vscode.Range(start, end) });
         };
 
         let match: RegExpExecArray | null;
@@ -993,6 +1091,17 @@ function registerSpecificationLinks(context: vscode.ExtensionContext) {
         }
       }
 
+      const links: vscode.DocumentLink[] = [];
+      for (const info of classifications) {
+        if ((await findClassificationTargets(document, info, manager)).length > 0) {
+          continue;
+        }
+        const args = [document.uri.toString(), { line: info.position.line, character: info.position.character }];
+        const remoteUri = vscode.Uri.parse(
+          `command:emergent.openSpecificationAtPosition?${encodeURIComponent(JSON.stringify(args))}`
+        );
+        links.push(new vscode.DocumentLink(info.range, remoteUri));
+      }
       return links;
     },
   };
@@ -1000,6 +1109,116 @@ function registerSpecificationLinks(context: vscode.ExtensionContext) {
   context.subscriptions.push(vscode.languages.registerDocumentLinkProvider(selector, provider));
 }
 
+/** Mirrors the server's `ContractTerm`: a term with the fields its type needs. */
+type ExtractedTerm = {
+  type: string;
+  name: string;
+  protocol?: string;
+  minimum?: number;
+  maximum?: number;
+  length?: number;
+  hint?: string;
+};
+
+/** Mirrors the server's `ExtractContractArguments` sent with the "Extract to contract" code action. */
+interface ExtractContractArguments {
+  uri: string;
+  range: { start: { line: number; character: number }; end: { line: number; character: number } };
+  indent: string;
+  classification: string;
+  requirements: ExtractedTerm[];
+  obligations: ExtractedTerm[];
+  body: string[];
+}
+
+function toContractTerm(term: ExtractedTerm): ContractTerm {
+  return new ContractTerm(term.name, term.type, term.protocol, term.hint, term.length, term.minimum, term.maximum);
+}
+
+/**
+ * Completes the server's "Extract to contract" refactoring: writes the new contract specification and
+ * its expression into the Component Manager directory of the edited file and replaces the selected
+ * statements with a `sub` to the new classification, all as one undoable edit.
+ */
+function registerExtractToContract(context: vscode.ExtensionContext, manager: ComponentManager) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("emergent.extractToContract", async (args: ExtractContractArguments) => {
+      const classification = await vscode.window.showInputBox({
+        title: "Extract to Contract",
+        prompt: "Enter the new contract classification (/layer/verb/subject/variation/platform)",
+        value: args.classification,
+        validateInput: (value) =>
+          CONTRACT_CLASSIFICATION_PATTERN.test(value.trim())
+            ? undefined
+            : "Classification must match /layer/verb/subject/variation/platform (lowercase, digits, hyphens).",
+      });
+      if (!classification) {
+        return;
+      }
+      const trimmedClassification = classification.trim();
+      const source = vscode.Uri.parse(args.uri);
+      const target = manager.newContractUris(trimmedClassification, source);
+      if (!target) {
+        void vscode.window.showErrorMessage(
+          "Extract to contract: unable to resolve the new contract's location. Check specification.defaultContractExpressionPath and the Component Manager directories."
+        );
+        return;
+      }
+      for (const uri of [target.specification, target.expression]) {
+        try {
+          await vscode.workspace.fs.stat(uri);
+          void vscode.window.showErrorMessage(`Extract to contract: ${vscode.workspace.asRelativePath(uri, false)} already exists.`);
+          return;
+        } catch {
+          // The path is available for the new contract.
+        }
+      }
+
+      const specification = {
+        type: "supplier",
+        name: trimmedClassification,
+        description: "",
+        requirements: args.requirements.map(toContractTerm),
+        obligations: args.obligations.map(toContractTerm),
+        supplier: vscode.workspace.getConfiguration("specification").get<string>("defaultSupplier", "") ?? "",
+      };
+      const inputs = args.requirements.map((term) => term.name).join(", ");
+      const outputs = args.obligations.map((term) => term.name).join(", ");
+      const expression = [
+        `job ${trimmedClassification}(${inputs})${outputs ? ` ${outputs}` : ""}:`,
+        ...args.body.map((line) => (line.trim() ? `  ${line}` : "")),
+        "end",
+        "",
+      ].join("\n");
+      const call = `${args.indent}sub ${trimmedClassification}(${inputs})${outputs ? ` -> ${outputs}` : ""}`;
+
+      const edit = new vscode.WorkspaceEdit();
+      edit.createFile(target.specification);
+      edit.insert(target.specification, new vscode.Position(0, 0), JSON.stringify(specification, null, 2) + "\n");
+      edit.createFile(target.expression);
+      edit.insert(target.expression, new vscode.Position(0, 0), expression);
+      const { start, end } = args.range;
+      edit.replace(source, new vscode.Range(start.line, start.character, end.line, end.character), call);
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        void vscode.window.showErrorMessage("Extract to contract: the edit could not be applied.");
+        return;
+      }
+      for (const uri of [target.specification, target.expression]) {
+        await (await vscode.workspace.openTextDocument(uri)).save();
+      }
+      await vscode.commands.executeCommand("vscode.openWith", target.specification, "contractSpecEditor");
+      const uninferred = [...args.requirements, ...args.obligations]
+        .filter((term) => term.type === "abstraction" && !term.protocol)
+        .map((term) => `'${term.name}'`);
+      if (uninferred.length > 0) {
+        void vscode.window.showWarningMessage(
+          `Extract to contract: the types of ${uninferred.join(", ")} could not be inferred. Set their protocols in the new specification.`
+        );
+      }
+    })
+  );
+}
+
 async function createNewProtocolSpec() {
   const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
   if (!workspaceFolder) {
@@ -1164,12 +1383,7 @@ async function openLocalSpecification(uri?: vscode.Uri | string, position?: vsco
     return;
   }
 
-  let rootUri: vscode.Uri | null = null;
-  try {
-    rootUri = rootString.startsWith("file:") ? vscode.Uri.parse(rootString) : vscode.Uri.file(rootString);
-  } catch {
-    rootUri = null;
-  }
+  const rootUri = parseSpecificationRoot(rootString);
   if (!rootUri) {
     void vscode.window.showWarningMessage("Invalid local specification root path.");
     return;
@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+import { LanguageClient } from "vscode-languageclient/node";
+
+// LSP 3.17 `textDocument/inlayHint` result entries, as answered by the language server.
+type ExpressionInlayHint = {
+  position: { line: number; character: number };
+  label: string;
+  kind?: number;
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+};
+
+const REFRESH_DELAY_MS = 300;
+
+/**
+ * Renders server inlay hints as editor decorations. The bundled client and VS Code typings predate the
+ * inlay hint API, so hints are requested directly and drawn ahead of the position they annotate.
+ */
+class ExpressionInlayHintDecorations implements vscode.Disposable {
+  private readonly decorationType = vscode.window.createTextEditorDecorationType({});
+  private readonly pendingRefresh = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private readonly client: LanguageClient) {}
+
+  dispose(): void {
+    for (const timer of this.pendingRefresh.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingRefresh.clear();
+    this.decorationType.dispose();
+  }
+
+  scheduleVisible(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      this.schedule(editor.document);
+    }
+  }
+
+  schedule(document: vscode.TextDocument): void {
+    if (document.languageId !== "emergent") {
+      return;
+    }
+    const key = document.uri.toString();
+    const existing = this.pendingRefresh.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    this.pendingRefresh.set(
+      key,
+      setTimeout(() => {
+        this.pendingRefresh.delete(key);
+        void this.refresh(document);
+      }, REFRESH_DELAY_MS)
+    );
+  }
+
+  private async refresh(document: vscode.TextDocument): Promise<void> {
+    const version = document.version;
+    let hints: ExpressionInlayHint[] | null;
+    try {
+      await this.client.onReady();
+      const end = document.lineAt(document.lineCount - 1).range.end;
+      hints = await this.client.sendRequest<ExpressionInlayHint[] | null>("textDocument/inlayHint", {
+        textDocument: { uri: document.uri.toString() },
+        range: { start: { line: 0, character: 0 }, end: { line: end.line, character: end.character } },
+      });
+    } catch (error) {
+      console.debug(`Inlay hints unavailable for ${document.uri.toString()}: ${String(error)}`);
+      return;
+    }
+    // A newer edit has its own refresh queued.
+    if (document.version !== version) {
+      return;
+    }
+    const decorations = (hints ?? []).map((hint) => this.toDecoration(hint));
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document === document) {
+        editor.setDecorations(this.decorationType, decorations);
+      }
+    }
+  }
+
+  private toDecoration(hint: ExpressionInlayHint): vscode.DecorationOptions {
+    const position = new vscode.Position(hint.position.line, hint.position.character);
+    return {
+      range: new vscode.Range(position, position),
+      renderOptions: {
+        before: {
+          contentText: hint.label,
+          color: new vscode.ThemeColor("editorInlayHint.foreground"),
+          backgroundColor: new vscode.ThemeColor("editorInlayHint.background"),
+          margin: `0 ${hint.paddingRight ? "0.3em" : "0"} 0 ${hint.paddingLeft ? "0.3em" : "0"}`,
+          fontStyle: "normal",
+        },
+      },
+    };
+  }
+}
+
+export function registerExpressionInlayHints(context: vscode.ExtensionContext, client: LanguageClient): void {
+  const decorations = new ExpressionInlayHintDecorations(client);
+  context.subscriptions.push(
+    decorations,
+    vscode.window.onDidChangeVisibleTextEditors(() => decorations.scheduleVisible()),
+    vscode.workspace.onDidChangeTextDocument((event) => decorations.schedule(event.document)),
+    // Specifications arrive after the first request; diagnostics are republished once they have.
+    vscode.languages.onDidChangeDiagnostics((event) => {
+      for (const editor of vscode.window.visibleTextEditors) {
+        if (event.uris.some((uri) => uri.toString() === editor.document.uri.toString())) {
+          decorations.schedule(editor.document);
+        }
+      }
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("emergent.inlayHints")) {
+        decorations.scheduleVisible();
+      }
+    })
+  );
+  decorations.scheduleVisible();
+}
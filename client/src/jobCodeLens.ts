@@ -0,0 +1,104 @@
+import * as vscode from "vscode";
+import { LanguageClient } from "vscode-languageclient/node";
+import { ComponentManager } from "./componentManager";
+
+type AnalysedJob = {
+  classification: string | null;
+  range: { start: { line: number; character: number }; end: { line: number; character: number } };
+};
+type Analysis = { jobs: AnalysedJob[] };
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Lenses above each job header: how many indexed expressions use the job's contract, the specification
+ * actions, and the problems reported inside the job.
+ */
+class JobCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+  private readonly disposables: vscode.Disposable[];
+
+  constructor(private readonly client: LanguageClient, private readonly manager: ComponentManager) {
+    this.disposables = [
+      this.changeEmitter,
+      manager.onDidChangeIndex(() => this.changeEmitter.fire()),
+      vscode.languages.onDidChangeDiagnostics((event) => {
+        const visible = new Set(vscode.window.visibleTextEditors.map((editor) => editor.document.uri.toString()));
+        if (event.uris.some((uri) => visible.has(uri.toString()))) this.changeEmitter.fire();
+      }),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration("specification.localContractRoot")) this.changeEmitter.fire();
+      }),
+    ];
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+    let analysis: Analysis;
+    try {
+      await this.client.onReady();
+      // Job structure comes from the language service, as it does for Component Manager indexing.
+      analysis = await this.client.sendRequest<Analysis>("emergent/componentManager/analyseExpression", { text: document.getText() });
+    } catch {
+      return [];
+    }
+    if (token.isCancellationRequested) return [];
+    const diagnostics = vscode.languages.getDiagnostics(document.uri);
+    const hasLocalRoot = Boolean(vscode.workspace.getConfiguration("specification").get<string>("localContractRoot", ""));
+    return analysis.jobs.flatMap((job) => this.lensesFor(document, job, diagnostics, hasLocalRoot));
+  }
+
+  private lensesFor(document: vscode.TextDocument, job: AnalysedJob, diagnostics: vscode.Diagnostic[], hasLocalRoot: boolean): vscode.CodeLens[] {
+    const line = job.range.start.line;
+    const lineRange = document.lineAt(line).range;
+    // The specification commands resolve the classification under the given position.
+    const header = document.lineAt(line).text.match(/^\s*job\s+/i);
+    const classificationPosition = new vscode.Position(line, header ? header[0].length : job.range.start.character);
+    const lenses: vscode.CodeLens[] = [];
+
+    if (job.classification) {
+      const locations = this.manager.usageLocations(job.classification);
+      lenses.push(
+        new vscode.CodeLens(lineRange, {
+          title: `used by ${plural(this.manager.usageCount(job.classification), "expression")}`,
+          command: "editor.action.showReferences",
+          arguments: [document.uri, classificationPosition, locations],
+        })
+      );
+    }
+    lenses.push(
+      new vscode.CodeLens(lineRange, {
+        title: "open contract spec",
+        command: "emergent.showSpecificationPanel",
+        arguments: [document.uri, classificationPosition],
+      })
+    );
+    if (hasLocalRoot) {
+      lenses.push(
+        new vscode.CodeLens(lineRange, {
+          title: "open local .cspec",
+          command: "emergent.openLocalSpecificationAtPosition",
+          arguments: [document.uri, classificationPosition],
+        })
+      );
+    }
+
+    const jobRange = new vscode.Range(job.range.start.line, job.range.start.character, job.range.end.line, job.range.end.character);
+    const problems = diagnostics.filter((diagnostic) => jobRange.intersection(diagnostic.range) !== undefined).length;
+    if (problems > 0) {
+      lenses.push(new vscode.CodeLens(lineRange, { title: plural(problems, "problem"), command: "workbench.actions.view.problems" }));
+    }
+    return lenses;
+  }
+}
+
+export function registerJobCodeLenses(context: vscode.ExtensionContext, client: LanguageClient, manager: ComponentManager): void {
+  const provider = new JobCodeLensProvider(client, manager);
+  context.subscriptions.push(provider, vscode.languages.registerCodeLensProvider({ language: "emergent", scheme: "file" }, provider));
+}
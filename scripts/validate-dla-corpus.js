@@ -245,6 +245,7 @@ function main() {
         sourceHash,
         source: diagnostic.source || "emergent",
         severity: diagnostic.severity,
+        code: diagnostic.code,
         message: diagnostic.message,
         range: diagnostic.range,
         lineTextAtRun: lines[lineIndex] ?? "",
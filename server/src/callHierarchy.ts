@@ -0,0 +1,173 @@
+import {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyOutgoingCall,
+  Position,
+  Range,
+  SymbolKind,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { forEachStatement, JobNode, NodeKind, Statement } from "./lang/ast";
+import { Defaults, normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
+import { parseText } from "./lang/parser";
+import { getDefaultsFromText } from "./completionSupport";
+import { rangeContains } from "./ranges";
+
+export type ContractCall = { keyword: "sub" | "host" | "join"; classification: string; range: Range };
+
+export type ContractJob = {
+  uri: string;
+  classification: string;
+  range: Range;
+  selectionRange: Range;
+  calls: ContractCall[];
+};
+
+type CallHierarchyData = { classification: string };
+
+const CALL_KEYWORDS = new Set(["sub", "host", "join"]);
+
+function sameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
+
+function collectCalls(statements: Statement[], defaults: Defaults, calls: ContractCall[]) {
+  forEachStatement(statements, (statement) => {
+    if (statement.kind !== NodeKind.Statement) return;
+    const keyword = statement.keyword?.lexeme?.toLowerCase();
+    if (!keyword || !CALL_KEYWORDS.has(keyword) || !statement.classification) return;
+    const raw = statement.classification.lexeme;
+    const classification =
+      keyword === "sub" ? normalizeContractClassification(raw, defaults) : normalizeProtocolClassification(raw, defaults);
+    if (classification) {
+      calls.push({ keyword: keyword as ContractCall["keyword"], classification, range: statement.classification.range });
+    }
+  });
+}
+
+/**
+ * Jobs in an expression file with their normalized contract classification and every sub/host/join
+ * they make, resolved against the file's own `defaults` line.
+ */
+export function collectContractJobs(uri: string, text: string): ContractJob[] {
+  const { program } = parseText(text);
+  const defaults: Defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  const jobs: ContractJob[] = [];
+  for (const statement of program.statements) {
+    if (statement.kind !== NodeKind.Job) continue;
+    const job = statement as JobNode;
+    const raw = job.classification?.lexeme;
+    const classification = raw ? normalizeContractClassification(raw, defaults) : null;
+    if (!classification) continue;
+    const calls: ContractCall[] = [];
+    collectCalls(job.body.statements, defaults, calls);
+    jobs.push({ uri, classification, range: job.range, selectionRange: job.classification!.range, calls });
+  }
+  return jobs;
+}
+
+/**
+ * Contract jobs for every indexed expression file. It shares the workspace symbol index's scope and is
+ * updated alongside it.
+ */
+export class CallHierarchyIndex {
+  private readonly jobsByUri = new Map<string, ContractJob[]>();
+
+  update(uri: string, text: string): void {
+    this.jobsByUri.set(uri, collectContractJobs(uri, text));
+  }
+
+  remove(uri: string): void {
+    this.jobsByUri.delete(uri);
+  }
+
+  clear(): void {
+    this.jobsByUri.clear();
+  }
+
+  jobs(): ContractJob[] {
+    return Array.from(this.jobsByUri.values()).flat();
+  }
+
+  jobsIn(uri: string): ContractJob[] {
+    return this.jobsByUri.get(uri) ?? [];
+  }
+}
+
+function jobItem(job: ContractJob): CallHierarchyItem {
+  const data: CallHierarchyData = { classification: job.classification };
+  return {
+    name: job.classification,
+    kind: SymbolKind.Module,
+    detail: "job",
+    uri: job.uri,
+    range: job.range,
+    selectionRange: job.selectionRange,
+    data,
+  };
+}
+
+// A call whose contract or protocol has no indexed job is shown at the call site.
+function callTargetItem(call: ContractCall, uri: string, jobs: ContractJob[]): CallHierarchyItem {
+  const implementation = jobs.find((job) => job.classification === call.classification);
+  if (implementation) return jobItem(implementation);
+  const data: CallHierarchyData = { classification: call.classification };
+  return {
+    name: call.classification,
+    kind: call.keyword === "sub" ? SymbolKind.Object : SymbolKind.Interface,
+    detail: call.keyword,
+    uri,
+    range: call.range,
+    selectionRange: call.range,
+    data,
+  };
+}
+
+function itemClassification(item: CallHierarchyItem): string {
+  return (item.data as CallHierarchyData | undefined)?.classification ?? item.name;
+}
+
+export function prepareCallHierarchy(document: TextDocument, position: Position, indexedJobs: ContractJob[]): CallHierarchyItem[] | null {
+  for (const job of collectContractJobs(document.uri, document.getText())) {
+    if (rangeContains(job.selectionRange, position)) return [jobItem(job)];
+    const call = job.calls.find((candidate) => rangeContains(candidate.range, position));
+    if (call) return [callTargetItem(call, document.uri, indexedJobs)];
+  }
+  return null;
+}
+
+/** Jobs whose body calls the item's classification, with the call sites as `fromRanges`. */
+export function buildIncomingCalls(item: CallHierarchyItem, indexedJobs: ContractJob[]): CallHierarchyIncomingCall[] {
+  const classification = itemClassification(item);
+  const incoming: CallHierarchyIncomingCall[] = [];
+  for (const job of indexedJobs) {
+    const fromRanges = job.calls.filter((call) => call.classification === classification).map((call) => call.range);
+    if (fromRanges.length > 0) {
+      incoming.push({ from: jobItem(job), fromRanges });
+    }
+  }
+  return incoming;
+}
+
+/** The sub/host/join calls made by the item's job, grouped by the classification they call. */
+export function buildOutgoingCalls(
+  item: CallHierarchyItem,
+  fileJobs: ContractJob[],
+  indexedJobs: ContractJob[]
+): CallHierarchyOutgoingCall[] {
+  const job = fileJobs.find((candidate) => sameRange(candidate.selectionRange, item.selectionRange));
+  if (!job || job.classification !== itemClassification(item)) return [];
+  const byClassification = new Map<string, ContractCall[]>();
+  for (const call of job.calls) {
+    byClassification.set(call.classification, [...(byClassification.get(call.classification) ?? []), call]);
+  }
+  return Array.from(byClassification.values()).map((calls) => ({
+    to: callTargetItem(calls[0], job.uri, indexedJobs),
+    fromRanges: calls.map((call) => call.range),
+  }));
+}
@@ -0,0 +1,209 @@
+import { CodeAction, CodeActionKind, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { lexText } from "./lang/lexer";
+import { parseText } from "./lang/parser";
+import { Defaults, normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
+import { TokenKind } from "./lang/tokens";
+import { getDefaultsFromText } from "./completionSupport";
+import { collectReferencedClassifications } from "./specReferenceCollector";
+import { intersects } from "./ranges";
+
+export const EXPAND_CLASSIFICATIONS_KIND = `${CodeActionKind.Source}.expandClassifications`;
+export const COLLAPSE_CLASSIFICATIONS_KIND = `${CodeActionKind.Source}.collapseClassifications`;
+export const OPTIMIZE_DEFAULTS_KIND = `${CodeActionKind.Source}.optimizeDefaults`;
+
+const DEFAULTS_LINE_PATTERN = /(^|\n)[ \t]*defaults:\s*(?<values>[^ ,\n]*\s*,\s*[^ ,\n]*\s*,\s*[^ ,\n]*)/;
+
+export type ClassificationSite = { raw: string; range: Range; isProtocol: boolean; expanded: string; collapsed: string };
+
+function normalize(raw: string, defaults: Defaults, isProtocol: boolean): string | null {
+  return isProtocol ? normalizeProtocolClassification(raw, defaults) : normalizeContractClassification(raw, defaults);
+}
+
+/**
+ * Shortest spelling of a fully-qualified classification under `defaults`: the layer is dropped when it
+ * is the default, trailing default variation/platform segments are omitted, and an inner default
+ * segment becomes `.`. Falls back to the full form when the shorthand would not round-trip.
+ */
+export function collapseClassification(full: string, defaults: Defaults, isProtocol: boolean): string {
+  const segments = full.split("/").filter(Boolean);
+  const [layer, ...rest] = segments;
+  const named = rest.slice(0, isProtocol ? 1 : 2);
+  const tail = [rest[rest.length - 2], rest[rest.length - 1]];
+  const tailDefaults = [defaults.variation, defaults.platform];
+  while (tail.length > 0 && tail[tail.length - 1] === tailDefaults[tail.length - 1]) tail.pop();
+  const path = [...named, ...tail.map((segment, index) => (segment === tailDefaults[index] ? "." : segment))].join("/");
+  const candidate = layer === defaults.layer ? path : `/${layer}/${path}`;
+  return normalize(candidate, defaults, isProtocol) === full ? candidate : full;
+}
+
+/** Every job, sub, host and join classification in `text`, with its expanded and shortest spellings. */
+export function collectClassificationSites(text: string, defaults: Defaults): ClassificationSite[] {
+  const { tokens } = lexText(text);
+  const sites: ClassificationSite[] = [];
+  tokens.forEach((token, index) => {
+    const keyword = tokens[index - 1]?.kind === TokenKind.Keyword ? tokens[index - 1].lexeme.toLowerCase() : "";
+    if (token.kind !== TokenKind.Classification || !["job", "sub", "host", "join"].includes(keyword)) return;
+    const isProtocol = keyword === "host" || keyword === "join";
+    const expanded = normalize(token.lexeme, defaults, isProtocol);
+    if (!expanded) return;
+    sites.push({
+      raw: token.lexeme,
+      range: token.range,
+      isProtocol,
+      expanded,
+      collapsed: collapseClassification(expanded, defaults, isProtocol),
+    });
+  });
+  return sites;
+}
+
+function rewrite(document: TextDocument, title: string, kind: string, edits: TextEdit[]): CodeAction {
+  return { title, kind, edit: { changes: { [document.uri]: edits } } };
+}
+
+/**
+ * Rewrites between `defaults`-relative and fully-qualified classifications: refactorings for the
+ * classification under the cursor and source actions that apply to every job, sub, host and join.
+ */
+export function buildClassificationShorthandActions(document: TextDocument, range: Range): CodeAction[] {
+  const text = document.getText();
+  const sites = collectClassificationSites(text, getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" });
+  const actions: CodeAction[] = [];
+  for (const site of sites.filter((candidate) => intersects(candidate.range, range, { touching: true }))) {
+    if (site.expanded !== site.raw) {
+      actions.push(
+        rewrite(document, `Expand classification to '${site.expanded}'`, CodeActionKind.RefactorRewrite, [
+          TextEdit.replace(site.range, site.expanded),
+        ])
+      );
+    }
+    if (site.collapsed !== site.raw) {
+      actions.push(
+        rewrite(document, `Collapse classification to '${site.collapsed}'`, CodeActionKind.RefactorRewrite, [
+          TextEdit.replace(site.range, site.collapsed),
+        ])
+      );
+    }
+  }
+
+  const expandAll = sites.filter((site) => site.expanded !== site.raw);
+  if (expandAll.length > 0) {
+    actions.push(
+      rewrite(
+        document,
+        "Expand all classifications in document",
+        EXPAND_CLASSIFICATIONS_KIND,
+        expandAll.map((site) => TextEdit.replace(site.range, site.expanded))
+      )
+    );
+  }
+  const collapseAll = sites.filter((site) => site.collapsed !== site.raw);
+  if (collapseAll.length > 0) {
+    actions.push(
+      rewrite(
+        document,
+        "Collapse all classifications in document",
+        COLLAPSE_CLASSIFICATIONS_KIND,
+        collapseAll.map((site) => TextEdit.replace(site.range, site.collapsed))
+      )
+    );
+  }
+  return actions;
+}
+
+function explicitSegments(sites: ClassificationSite[], defaults: Defaults): number {
+  return sites.reduce(
+    (total, site) =>
+      total +
+      collapseClassification(site.expanded, defaults, site.isProtocol)
+        .split("/")
+        .filter((segment) => segment && segment !== ".").length,
+    0
+  );
+}
+
+/**
+ * The `defaults` values that minimise the explicit segments needed to write every classification in the
+ * file, searched over the layers, variations and platforms the file refers to. Ties keep the current value.
+ * A file without a `defaults:` line is measured with every classification written in full.
+ */
+export function optimizeDefaults(text: string): { defaults: Defaults; segments: number; currentSegments: number } | null {
+  const current: Defaults | null = getDefaultsFromText(text);
+  const baseline = current ?? { layer: "", variation: "", platform: "" };
+  const sites = collectClassificationSites(text, baseline);
+  const { classifications, classificationKinds } = collectReferencedClassifications(parseText(text).program, baseline);
+  const layers = new Set(current ? [current.layer] : []);
+  const variations = new Set(current ? [current.variation] : []);
+  const platforms = new Set(current ? [current.platform] : []);
+  for (const classification of classifications) {
+    const segments = classification.split("/").filter(Boolean);
+    if (segments.length !== (classificationKinds.get(classification) === "protocol" ? 4 : 5)) continue;
+    layers.add(segments[0]);
+    variations.add(segments[segments.length - 2]);
+    platforms.add(segments[segments.length - 1]);
+  }
+
+  const currentSegments = explicitSegments(sites, baseline);
+  let best = current ? { defaults: current, segments: currentSegments, currentSegments } : null;
+  for (const layer of layers) {
+    for (const variation of variations) {
+      for (const platform of platforms) {
+        const candidate = { layer, variation, platform };
+        const segments = explicitSegments(sites, candidate);
+        if (!best || segments < best.segments) best = { defaults: candidate, segments, currentSegments };
+      }
+    }
+  }
+  return best;
+}
+
+// The supplier written most often after `@`, for a new `defaults:` line; ties go to the first one written.
+function mostUsedSupplier(text: string): string | undefined {
+  const counts = new Map<string, number>();
+  for (const token of lexText(text).tokens) {
+    if (token.kind === TokenKind.Supplier) counts.set(token.lexeme, (counts.get(token.lexeme) ?? 0) + 1);
+  }
+  let best: string | undefined;
+  for (const [supplier, count] of counts) {
+    if (best === undefined || count > (counts.get(best) ?? 0)) best = supplier;
+  }
+  return best;
+}
+
+/**
+ * Source action that rewrites the `defaults:` line to the values found by `optimizeDefaults` and
+ * collapses every classification against them. The supplier entry is left as written. A file without a
+ * `defaults:` line gets one at the top, using the supplier its statements name most often.
+ */
+export function buildOptimizeDefaultsAction(document: TextDocument): CodeAction | null {
+  const text = document.getText();
+  const optimized = optimizeDefaults(text);
+  if (!optimized || optimized.segments >= optimized.currentSegments) return null;
+  const { layer, variation, platform } = optimized.defaults;
+  const current = getDefaultsFromText(text) as Defaults | null;
+  const line = current ? DEFAULTS_LINE_PATTERN.exec(text) : null;
+  const edits: TextEdit[] = [];
+  let title: string;
+  if (line?.groups) {
+    const valuesStart = line.index + line[0].length - line.groups.values.length;
+    edits.push(
+      TextEdit.replace(
+        { start: document.positionAt(valuesStart), end: document.positionAt(valuesStart + line.groups.values.length) },
+        `${layer}, ${variation}, ${platform}`
+      )
+    );
+    title = `Optimize defaults line to '${layer}, ${variation}, ${platform}'`;
+  } else {
+    const supplier = mostUsedSupplier(text);
+    if (current || !supplier) return null;
+    const values = `${layer}, ${variation}, ${platform}, ${supplier}`;
+    edits.push(TextEdit.insert({ line: 0, character: 0 }, `defaults: ${values}\n\n`));
+    title = `Add defaults line '${values}'`;
+  }
+  for (const site of collectClassificationSites(text, current ?? { layer: "", variation: "", platform: "" })) {
+    const rewritten = collapseClassification(site.expanded, optimized.defaults, site.isProtocol);
+    if (rewritten !== site.raw) edits.push(TextEdit.replace(site.range, rewritten));
+  }
+  return rewrite(document, title, OPTIMIZE_DEFAULTS_KIND, edits);
+}
@@ -0,0 +1,62 @@
+import { CodeAction, CodeActionKind, Diagnostic, Position, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Token, TokenKind } from "./lang/tokens";
+import { ContractSpecTopic } from "./completionSupport";
+
+export function samePosition(a: Position, b: Position): boolean {
+  return a.line === b.line && a.character === b.character;
+}
+
+/**
+ * Placeholder label for a specification term. Mirrors `topicLabel` in the client's Component Manager so
+ * repaired headers read like generated skeletons; the client and server build separately and share no
+ * code, so change the two together.
+ */
+export function termLabel(term: ContractSpecTopic): string {
+  return (
+    String(term.name ?? "topic")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "topic"
+  );
+}
+
+export function placeholderLabels(terms: ContractSpecTopic[], occupied: Set<string>): string[] {
+  return terms.map((term) => {
+    const base = termLabel(term);
+    let candidate = base;
+    let suffix = 2;
+    while (occupied.has(candidate)) candidate = `${base}_${suffix++}`;
+    occupied.add(candidate);
+    return candidate;
+  });
+}
+
+function tokenIndexAt(tokens: Token[], position: Position): number {
+  return tokens.findIndex((token) => samePosition(token.range.start, position));
+}
+
+// The `(` and matching `)` directly after a classification (and optional `@supplier`) or def name.
+export function parenthesesAfter(tokens: Token[], token: Token): { open?: Token; close?: Token; last: Token } {
+  let index = tokenIndexAt(tokens, token.range.start);
+  if (index < 0) return { last: token };
+  if (tokens[index + 1]?.kind === TokenKind.At) index += 1;
+  if (tokens[index + 1]?.kind === TokenKind.Supplier) index += 1;
+  const last = tokens[index];
+  if (tokens[index + 1]?.kind !== TokenKind.LParen) return { last };
+  let depth = 0;
+  for (let i = index + 1; i < tokens.length; i++) {
+    if (tokens[i].kind === TokenKind.LParen) depth += 1;
+    if (tokens[i].kind === TokenKind.RParen && --depth === 0) return { open: tokens[index + 1], close: tokens[i], last: tokens[i] };
+  }
+  return { last };
+}
+
+export function quickFix(document: TextDocument, title: string, diagnostic: Diagnostic, edits: TextEdit[]): CodeAction {
+  return {
+    title,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: { changes: { [document.uri]: edits } },
+  };
+}
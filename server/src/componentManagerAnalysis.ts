@@ -3,7 +3,7 @@ import { parseText } from "./lang/parser";
 import { resolveProgram } from "./lang/resolver";
 import { typeCheckProgram } from "./lang/typeChecker";
 import { normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
-import { JobNode, NodeKind, StatementNode } from "./lang/ast";
+import { forEachStatement, JobNode, NodeKind, Statement, StatementNode } from "./lang/ast";
 
 export type ComponentManagerRange = Range;
 
@@ -16,6 +16,12 @@ export type ComponentManagerStatement = {
   range: ComponentManagerRange;
 };
 
+export type ComponentManagerSubcontract = {
+  classification: string | null;
+  rawClassification: string;
+  range: ComponentManagerRange;
+};
+
 export type ComponentManagerJob = {
   classification: string | null;
   rawClassification?: string;
@@ -24,6 +30,7 @@ export type ComponentManagerJob = {
   range: ComponentManagerRange;
   bodyRange: ComponentManagerRange;
   statements: ComponentManagerStatement[];
+  subcontracts: ComponentManagerSubcontract[];
 };
 
 export type ComponentManagerExpressionAnalysis = {
@@ -46,6 +53,20 @@ function label(token: any): { label: string; range: ComponentManagerRange } {
   return { label: token.lexeme, range: token.range };
 }
 
+function collectSubcontracts(statements: Statement[], defaults: Defaults, subcontracts: ComponentManagerSubcontract[]) {
+  // Unlike host/join participations, sub statements count wherever they appear in the job body,
+  // including inside its defs.
+  forEachStatement(statements, (statement) => {
+    if (statement.kind !== NodeKind.Statement || statement.keyword?.lexeme?.toLowerCase() !== "sub" || !statement.classification) return;
+    const rawClassification = statement.classification.lexeme;
+    subcontracts.push({
+      rawClassification,
+      classification: normalizeContractClassification(rawClassification, defaults),
+      range: statement.range,
+    });
+  });
+}
+
 /**
  * A compact, transport-safe projection of the existing AST.  The extension
  * host deliberately does not reparse expressions; it asks the language
@@ -80,6 +101,8 @@ export function analyseComponentManagerExpression(text: string): ComponentManage
         range: invocation.range,
       });
     }
+    const subcontracts: ComponentManagerSubcontract[] = [];
+    collectSubcontracts(job.body.statements, defaults, subcontracts);
     jobs.push({
       rawClassification,
       classification: rawClassification ? normalizeContractClassification(rawClassification, defaults) : null,
@@ -88,6 +111,7 @@ export function analyseComponentManagerExpression(text: string): ComponentManage
       range: job.range,
       bodyRange: job.body.range,
       statements,
+      subcontracts,
     });
   }
 
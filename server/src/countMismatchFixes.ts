@@ -0,0 +1,221 @@
+import { CodeAction, Diagnostic, Position, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { BlockNode, forEachStatement, JobNode, NodeKind, Statement, StatementNode } from "./lang/ast";
+import { lexText } from "./lang/lexer";
+import { Defaults, normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
+import { parseText } from "./lang/parser";
+import { Binding, resolveProgram } from "./lang/resolver";
+import { Token } from "./lang/tokens";
+import { CountMismatchData } from "./lang/typeChecker";
+import { getDefaultsFromText } from "./completionSupport";
+import { RemoteContractSpec } from "./gatewayClient";
+import { collaborationRole } from "./signatureHelp";
+import { parenthesesAfter, placeholderLabels, quickFix, samePosition } from "./codeActionSupport";
+
+type CountMismatch = { side: "requirement" | "obligation"; expected: number; actual: number };
+
+// The header or collaboration statement a count mismatch is reported on, keyed by its classification token.
+type Site =
+  | { kind: "job"; node: JobNode; classification: string | null }
+  | { kind: "call"; node: StatementNode; keyword: string; classification: string | null };
+
+type FixContext = {
+  document: TextDocument;
+  tokens: Token[];
+  specs: Record<string, RemoteContractSpec>;
+  // Tokens that name a label no other occurrence refers to.
+  removable: Set<Token>;
+  occupied: Set<string>;
+};
+
+// The checker reports EC2002 and EC2003 with the expected and actual counts as the diagnostic's data.
+function countMismatchOf(diagnostic: Diagnostic): CountMismatch | null {
+  if (diagnostic.code !== "EC2002" && diagnostic.code !== "EC2003") return null;
+  const data = diagnostic.data as Partial<CountMismatchData> | undefined;
+  if (typeof data?.expected !== "number" || typeof data.actual !== "number") return null;
+  return { side: diagnostic.code === "EC2002" ? "requirement" : "obligation", expected: data.expected, actual: data.actual };
+}
+
+function collectSites(statements: Statement[], defaults: Defaults, sites: Site[]) {
+  forEachStatement(statements, (statement) => {
+    if (statement.kind === NodeKind.Job) {
+      if (statement.classification) {
+        const raw = statement.classification.lexeme;
+        sites.push({ kind: "job", node: statement, classification: normalizeContractClassification(raw, defaults) });
+      }
+      return;
+    }
+    if (statement.kind !== NodeKind.Statement) return;
+    const keyword = statement.keyword?.lexeme?.toLowerCase();
+    if (keyword && ["sub", "host", "join"].includes(keyword) && statement.classification) {
+      const raw = statement.classification.lexeme;
+      const classification =
+        keyword === "sub" ? normalizeContractClassification(raw, defaults) : normalizeProtocolClassification(raw, defaults);
+      sites.push({ kind: "call", node: statement, keyword, classification });
+    }
+  });
+}
+
+function plural(count: number, noun: string): string {
+  return count === 1 ? noun : `${noun}s`;
+}
+
+/**
+ * Grows or shrinks a comma-separated list to the expected number of entries. Missing entries are appended before
+ * `insertAt` (or wrapped by `wrap` when the list is empty); extra entries are removed only when
+ * `canRemove` allows every one of them.
+ */
+function resizeList(
+  entries: Array<{ range: Range }>,
+  { expected, actual }: CountMismatch,
+  labels: () => string[],
+  insertAt: Position,
+  emptyStart: Position,
+  wrap: (labels: string) => string,
+  canRemove: (extra: Array<{ range: Range }>) => boolean
+): TextEdit | null {
+  // Implicit `if` branch outputs are counted by the checker but have no text to edit.
+  if (entries.length !== actual) return null;
+  if (entries.length < expected) {
+    const added = labels().join(", ");
+    return entries.length > 0
+      ? TextEdit.insert(entries[entries.length - 1].range.end, `, ${added}`)
+      : TextEdit.insert(insertAt, wrap(added));
+  }
+  const extra = entries.slice(expected);
+  if (extra.length === 0 || !canRemove(extra)) return null;
+  const start = expected > 0 ? entries[expected - 1].range.end : emptyStart;
+  return TextEdit.del({ start, end: entries[entries.length - 1].range.end });
+}
+
+function jobFix(ctx: FixContext, site: Extract<Site, { kind: "job" }>, mismatch: CountMismatch, diagnostic: Diagnostic): CodeAction | null {
+  const spec = site.classification ? ctx.specs[site.classification] : undefined;
+  if (!spec) return null;
+  const job = site.node;
+  const unused = (extra: Array<{ range: Range }>) => extra.every((token) => ctx.removable.has(token as Token));
+  const { open, close, last } = parenthesesAfter(ctx.tokens, job.classification!);
+  if (mismatch.side === "requirement") {
+    const terms = (spec.requirements ?? []).slice(job.params.length, mismatch.expected);
+    const edit = resizeList(
+      job.params,
+      mismatch,
+      () => placeholderLabels(terms, ctx.occupied),
+      close?.range.start ?? last.range.end,
+      open?.range.end ?? last.range.end,
+      (labels) => (close ? labels : `(${labels})`),
+      unused
+    );
+    if (!edit) return null;
+    const title =
+      job.params.length < mismatch.expected
+        ? `Add missing ${plural(terms.length, "requirement")} to the job header`
+        : `Remove unused extra ${plural(job.params.length - mismatch.expected, "parameter")} from the job header`;
+    return quickFix(ctx.document, title, diagnostic, [edit]);
+  }
+  const terms = (spec.obligations ?? []).slice(job.targets.length, mismatch.expected);
+  const edit = resizeList(
+    job.targets,
+    mismatch,
+    () => placeholderLabels(terms, ctx.occupied),
+    last.range.end,
+    last.range.end,
+    (labels) => ` ${labels}`,
+    unused
+  );
+  if (!edit) return null;
+  const title =
+    job.targets.length < mismatch.expected
+      ? `Add missing ${plural(terms.length, "obligation")} to the job header`
+      : `Remove unused extra ${plural(job.targets.length - mismatch.expected, "obligation")} from the job header`;
+  return quickFix(ctx.document, title, diagnostic, [edit]);
+}
+
+function callFix(ctx: FixContext, site: Extract<Site, { kind: "call" }>, mismatch: CountMismatch, diagnostic: Diagnostic): CodeAction | null {
+  const spec = site.classification ? ctx.specs[site.classification] : undefined;
+  const role = spec ? collaborationRole(site.keyword, spec) : undefined;
+  if (!role) return null;
+  const statement = site.node;
+  const { open, close, last } = parenthesesAfter(ctx.tokens, statement.classification!);
+  if (mismatch.side === "requirement") {
+    const args = statement.callArgs ?? [];
+    const terms = (role.requirements ?? []).slice(args.length, mismatch.expected);
+    // Arguments are reads, so trailing extras can always be dropped.
+    const edit = resizeList(
+      args,
+      mismatch,
+      () => placeholderLabels(terms, ctx.occupied),
+      close?.range.start ?? last.range.end,
+      open?.range.end ?? last.range.end,
+      (labels) => (close ? labels : `(${labels})`),
+      () => true
+    );
+    if (!edit) return null;
+    const title =
+      args.length < mismatch.expected
+        ? `Add missing ${plural(terms.length, "argument")} to '${site.keyword}'`
+        : `Remove extra ${plural(args.length - mismatch.expected, "argument")} from '${site.keyword}'`;
+    return quickFix(ctx.document, title, diagnostic, [edit]);
+  }
+  const items: Array<Token | BlockNode> = statement.obligationOrder ?? statement.targets;
+  const terms = (role.obligations ?? []).slice(items.length, mismatch.expected);
+  // Brace blocks deliver obligations themselves; only unused plain targets are removed.
+  const edit = resizeList(
+    items,
+    mismatch,
+    () => placeholderLabels(terms, ctx.occupied),
+    last.range.end,
+    last.range.end,
+    (labels) => ` -> ${labels}`,
+    (extra) => extra.every((item) => ctx.removable.has(item as Token))
+  );
+  if (!edit) return null;
+  const title =
+    items.length < mismatch.expected
+      ? `Add missing ${plural(terms.length, "obligation")} to '${site.keyword}'`
+      : `Remove unused extra ${plural(items.length - mismatch.expected, "obligation")} from '${site.keyword}'`;
+  return quickFix(ctx.document, title, diagnostic, [edit]);
+}
+
+/**
+ * Quick fixes for "Requirement count mismatch" and "Obligation count mismatch": add placeholder labels
+ * named after the missing specification terms, or drop trailing extras that nothing else refers to.
+ */
+export function buildCountMismatchFixes(
+  document: TextDocument,
+  diagnostics: Diagnostic[],
+  specs: Record<string, RemoteContractSpec>
+): CodeAction[] {
+  const mismatches = diagnostics
+    .map((diagnostic) => ({ diagnostic, mismatch: countMismatchOf(diagnostic) }))
+    .filter((entry): entry is { diagnostic: Diagnostic; mismatch: CountMismatch } => entry.mismatch !== null);
+  if (mismatches.length === 0) return [];
+
+  const text = document.getText();
+  const { program } = parseText(text);
+  const defaults: Defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  const sites: Site[] = [];
+  collectSites(program.statements, defaults, sites);
+
+  const references = resolveProgram(program, { collectReferences: true }).references ?? [];
+  const occurrences = new Map<Binding, Token[]>();
+  const occupied = new Set<string>();
+  for (const reference of references) {
+    occupied.add(reference.binding.name.lexeme);
+    occurrences.set(reference.binding, [...(occurrences.get(reference.binding) ?? []), reference.token]);
+  }
+  const removable = new Set<Token>();
+  for (const tokens of occurrences.values()) {
+    if (tokens.length === 1) removable.add(tokens[0]);
+  }
+  const ctx: FixContext = { document, tokens: lexText(text).tokens, specs, removable, occupied };
+
+  const actions: CodeAction[] = [];
+  for (const { diagnostic, mismatch } of mismatches) {
+    const site = sites.find(
+      (candidate) => candidate.node.classification && samePosition(candidate.node.classification.range.start, diagnostic.range.start)
+    );
+    const action = !site ? null : site.kind === "job" ? jobFix(ctx, site, mismatch, diagnostic) : callFix(ctx, site, mismatch, diagnostic);
+    if (action) actions.push(action);
+  }
+  return actions;
+}
@@ -1,11 +1,52 @@
 import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
+import { DIAGNOSTIC_RULES, DiagnosticCode, DiagnosticLevel, findDiagnosticCode } from "./lang/diagnosticCodes";
 import { parseText } from "./lang/parser";
 import { resolveProgram } from "./lang/resolver";
+import { applySuppressions } from "./lang/suppressions";
+import { checkDefiniteAssignment } from "./lang/definiteAssignment";
+import { checkUsage } from "./lang/usage";
 import { typeCheckProgram } from "./lang/typeChecker";
+import { LintConfig, lintLevels, runLintRules } from "./lint";
+import { LINT_RULES } from "./lintRules";
+
+export type SeverityOverride = DiagnosticLevel | "off";
 
 export interface DiagnosticSettings {
   maxNumberOfProblems: number;
+  /** Keyed by diagnostic code (`EC1001`) or rule name (`undefined-name`). */
+  severityOverrides?: Record<string, SeverityOverride>;
+  /** Convention rules from the nearest `.emergentlint.json`. */
+  lint?: LintConfig;
+}
+
+const SEVERITIES: Record<DiagnosticLevel, DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  information: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+function resolveOverrides(overrides: Record<string, SeverityOverride> = {}): Map<DiagnosticCode, SeverityOverride> {
+  const resolved = new Map<DiagnosticCode, SeverityOverride>();
+  for (const [key, level] of Object.entries(overrides)) {
+    const code = findDiagnosticCode(key);
+    if (code && (level === "off" || level in SEVERITIES)) resolved.set(code, level);
+  }
+  return resolved;
+}
+
+// Reported by the usage and definite-assignment checks, which wait for a clean parse.
+const USAGE_CODES = new Set<DiagnosticCode>(["EC1005", "EC1006", "EC1007", "EC1008", "EC1009", "EC1010"]);
+
+/** The codes whose checks ran, so that a suppression for one of them that matched nothing is really unused. */
+function checkedCodes(usageChecked: boolean, lint: LintConfig | undefined): Set<DiagnosticCode> {
+  return new Set(
+    (Object.keys(DIAGNOSTIC_RULES) as DiagnosticCode[]).filter((code) => {
+      if (LINT_RULES.some((rule) => rule.code === code)) return usageChecked && !!lint?.rules.has(code);
+      return usageChecked || !USAGE_CODES.has(code);
+    })
+  );
 }
 
 export function collectDiagnostics(
@@ -15,14 +56,34 @@ export function collectDiagnostics(
   defaults?: { layer: string; variation: string; platform: string },
   specLookupIssues?: Record<string, string>
 ): Diagnostic[] {
-  const { program, diagnostics: syntaxDiagnostics } = parseText(textDocument.getText());
-  const { diagnostics: resolverDiagnostics } = resolveProgram(program);
+  const { program, diagnostics: syntaxDiagnostics, suppressions } = parseText(textDocument.getText());
+  const { diagnostics: resolverDiagnostics, references = [], unresolved } = resolveProgram(program, { collectReferences: true });
   const { diagnostics: typeDiagnostics } = typeCheckProgram(program, { specs, defaults, specLookupIssues });
-  const combined = [...syntaxDiagnostics, ...resolverDiagnostics, ...typeDiagnostics];
-  return combined.slice(0, settings.maxNumberOfProblems).map((diag) => ({
-    severity: DiagnosticSeverity.Error,
-    range: diag.range,
-    message: diag.message,
-    source: "emergent",
-  }));
+  // Usage, assignment and lint warnings on a partial parse would flag labels whose uses were not parsed.
+  const usageChecked = syntaxDiagnostics.length === 0;
+  const usageDiagnostics = usageChecked
+    ? [
+        ...checkUsage(program, references, unresolved),
+        ...checkDefiniteAssignment(program),
+        ...(settings.lint ? runLintRules(textDocument, program, settings.lint) : []),
+      ]
+    : [];
+  const combined = applySuppressions(
+    [...syntaxDiagnostics, ...resolverDiagnostics, ...typeDiagnostics, ...usageDiagnostics],
+    suppressions,
+    checkedCodes(usageChecked, settings.lint)
+  );
+  // Editor settings take precedence over the levels in the lint configuration file.
+  const overrides = new Map([...lintLevels(settings.lint), ...resolveOverrides(settings.severityOverrides)]);
+  return combined
+    .filter((diag) => overrides.get(diag.code) !== "off")
+    .slice(0, settings.maxNumberOfProblems)
+    .map((diag) => ({
+      severity: SEVERITIES[(overrides.get(diag.code) as DiagnosticLevel | undefined) ?? DIAGNOSTIC_RULES[diag.code].severity],
+      range: diag.range,
+      message: diag.message,
+      code: diag.code,
+      source: "emergent",
+      ...(diag.data === undefined ? {} : { data: diag.data }),
+    }));
 }
@@ -0,0 +1,90 @@
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { BlockNode, braceBlocks, DefNode, IfNode, ifNodeOf, JobNode, NodeKind, Statement, StatementNode } from "./lang/ast";
+import { Defaults, normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
+import { parseText } from "./lang/parser";
+import { Token } from "./lang/tokens";
+import { getDefaultsFromText } from "./completionSupport";
+
+const COLLABORATION_KEYWORDS = new Set(["sub", "host", "join"]);
+
+function labels(tokens: Token[]): string {
+  return tokens.map((token) => token.lexeme).join(", ");
+}
+
+function blockSymbols(block: BlockNode | undefined, defaults: Defaults): DocumentSymbol[] {
+  return block ? collectSymbols(block.statements, defaults) : [];
+}
+
+function jobSymbol(job: JobNode, defaults: Defaults): DocumentSymbol {
+  const raw = job.classification?.lexeme;
+  const name = (raw && normalizeContractClassification(raw, defaults)) || raw || "job";
+  const selectionRange = job.classification?.range ?? job.range;
+  return DocumentSymbol.create(name, "job", SymbolKind.Module, job.range, selectionRange, blockSymbols(job.body, defaults));
+}
+
+function defSymbol(def: DefNode, defaults: Defaults): DocumentSymbol {
+  const detail = `(${labels(def.params)})${def.targets.length > 0 ? ` -> ${labels(def.targets)}` : ""}`;
+  const children = blockSymbols(def.body, defaults);
+  return DocumentSymbol.create(def.name.lexeme || "def", detail, SymbolKind.Function, def.range, def.name.range, children);
+}
+
+function ifSymbol(statement: StatementNode, ifNode: IfNode, defaults: Defaults): DocumentSymbol {
+  const children = blockSymbols(ifNode.thenBlock, defaults);
+  if (ifNode.elseBlock) {
+    const elseRange = ifNode.elseBlock.range;
+    const elseChildren = blockSymbols(ifNode.elseBlock, defaults);
+    children.push(DocumentSymbol.create("else", "", SymbolKind.Namespace, elseRange, elseRange, elseChildren));
+  }
+  const detail = statement.targets.length > 0 ? `-> ${labels(statement.targets)}` : "";
+  return DocumentSymbol.create("if", detail, SymbolKind.Namespace, statement.range, statement.range, children);
+}
+
+function collaborationSymbol(statement: StatementNode, keyword: string, defaults: Defaults): DocumentSymbol | null {
+  const raw = statement.classification?.lexeme;
+  if (!raw) return null;
+  const normalized =
+    keyword === "sub" ? normalizeContractClassification(raw, defaults) : normalizeProtocolClassification(raw, defaults);
+  const detail = statement.supplier?.lexeme ? `${keyword} @${statement.supplier.lexeme}` : keyword;
+  const kind = keyword === "sub" ? SymbolKind.Object : SymbolKind.Interface;
+  // Brace obligation blocks belong to the statement that opens them.
+  const children = braceBlocks(statement).flatMap((block) => blockSymbols(block, defaults));
+  return DocumentSymbol.create(normalized ?? raw, detail, kind, statement.range, statement.classification!.range, children);
+}
+
+function collectSymbols(statements: Statement[], defaults: Defaults): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+  for (const statement of statements) {
+    if (statement.kind === NodeKind.Job) {
+      symbols.push(jobSymbol(statement as JobNode, defaults));
+      continue;
+    }
+    if (statement.kind === NodeKind.Def) {
+      symbols.push(defSymbol(statement as DefNode, defaults));
+      continue;
+    }
+    const node = statement as StatementNode;
+    const ifNode = ifNodeOf(node);
+    if (ifNode) {
+      symbols.push(ifSymbol(node, ifNode, defaults));
+      continue;
+    }
+    const keyword = node.keyword?.lexeme?.toLowerCase();
+    if (keyword && COLLABORATION_KEYWORDS.has(keyword)) {
+      const symbol = collaborationSymbol(node, keyword, defaults);
+      if (symbol) symbols.push(symbol);
+    }
+  }
+  return symbols;
+}
+
+/**
+ * Builds the outline for an expression document: jobs, nested defs, `if` blocks as namespaces, and
+ * one child per sub/host/join statement labelled with its normalized classification.
+ */
+export function buildDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+  const text = document.getText();
+  const { program } = parseText(text);
+  const defaults: Defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  return collectSymbols(program.statements, defaults);
+}
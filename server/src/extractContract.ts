@@ -0,0 +1,125 @@
+import { CodeAction, CodeActionKind, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { JobNode, NodeKind } from "./lang/ast";
+import { Binding } from "./lang/resolver";
+import { Defaults, normalizeContractClassification } from "./lang/normalization";
+import { Type, TypeKind, typeCheckProgram } from "./lang/typeChecker";
+import { RemoteContractSpec } from "./gatewayClient";
+import { getDefaultsFromText } from "./completionSupport";
+import { analyseSelection } from "./extractDef";
+
+export const EXTRACT_CONTRACT_COMMAND = "emergent.extractToContract";
+
+const FALLBACK_CLASSIFICATION = "/layer/verb/subject/variation/platform";
+
+/** A specification term as `media/contractSpec.schema.json` requires it for its type. */
+export type ContractTerm = {
+  type: string;
+  name: string;
+  protocol?: string;
+  minimum?: number;
+  maximum?: number;
+  length?: number;
+  hint?: string;
+};
+
+/** Everything the client needs to write the new specification and expression and replace the selection. */
+export interface ExtractContractArguments {
+  uri: string;
+  range: Range;
+  indent: string;
+  classification: string;
+  requirements: ContractTerm[];
+  obligations: ContractTerm[];
+  body: string[];
+}
+
+function sameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line &&
+    a.start.character === b.start.character &&
+    a.end.line === b.end.line &&
+    a.end.character === b.end.character
+  );
+}
+
+function termFor(name: string, type: Type | undefined): ContractTerm {
+  switch (type?.kind) {
+    case TypeKind.Integer:
+      return { type: "integer", name, minimum: 0, maximum: 0, hint: "" };
+    case TypeKind.String:
+      return { type: "string", name, length: 0, hint: "" };
+    case TypeKind.Boolean:
+      return { type: "boolean", name };
+    case TypeKind.Site:
+      return { type: "site", name };
+    case TypeKind.Classification:
+      if (type.classification) return { type: "abstraction", name, protocol: type.classification };
+  }
+  // Left for the author to complete in the specification editor.
+  return { type: "abstraction", name, protocol: "" };
+}
+
+function suggestClassification(job: JobNode | undefined, defaults: Defaults): string {
+  const current = job?.classification ? normalizeContractClassification(job.classification.lexeme, defaults) : null;
+  const segments = current?.split("/").filter(Boolean) ?? [];
+  if (segments.length !== 5) return FALLBACK_CLASSIFICATION;
+  const [layer, verb, , variation, platform] = segments;
+  return `/${layer}/${verb}/extracted/${variation}/${platform}`;
+}
+
+/**
+ * Offers to move the selected statements into a new sub-contract. Requirement and obligation types come
+ * from the type checker's view of each label inside the selection; the files themselves are written by
+ * the client, which owns the Component Manager directories and filename settings.
+ */
+export function buildExtractContractAction(
+  document: TextDocument,
+  range: Range,
+  specs: Record<string, RemoteContractSpec> = {}
+): CodeAction | null {
+  const text = document.getText();
+  const selection = analyseSelection(text, range);
+  if (!selection) return null;
+  const { program, span, references, inputs, outputs } = selection;
+  const inside = references.filter(
+    (reference) =>
+      reference.token.range.start.line >= span.start.line &&
+      reference.token.range.end.line <= span.end.line
+  );
+  // A sub-contract cannot see the defs of the job it was cut from.
+  if (inside.some((reference) => reference.binding.kind === "def" && reference.role === "read")) return null;
+
+  const defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  const types = typeCheckProgram(program, { collectTypes: true, specs, defaults }).types ?? [];
+  const typeOf = (binding: Binding): Type | undefined => {
+    const ranges = references.filter((reference) => reference.binding === binding).map((reference) => reference.token.range);
+    return types
+      .filter((entry) => ranges.some((candidate) => sameRange(candidate, entry.range)))
+      .flatMap((entry) => entry.types)
+      .find((type) => type.kind !== TypeKind.Unknown);
+  };
+
+  const lines = text.split(/\r?\n/).slice(span.start.line, span.end.line + 1);
+  const dedent = Math.min(...lines.filter((line) => line.trim()).map((line) => /^\s*/.exec(line)![0].length));
+  const job = program.statements.find(
+    (statement) =>
+      statement.kind === NodeKind.Job &&
+      statement.range.start.line <= span.start.line &&
+      statement.range.end.line >= span.end.line
+  ) as JobNode | undefined;
+  const args: ExtractContractArguments = {
+    uri: document.uri,
+    range: { start: { line: span.start.line, character: 0 }, end: { line: span.end.line, character: lines[lines.length - 1].length } },
+    indent: /^\s*/.exec(lines[0])?.[0] ?? "",
+    classification: suggestClassification(job, defaults),
+    requirements: inputs.map((binding) => termFor(binding.name.lexeme, typeOf(binding))),
+    obligations: outputs.map((binding) => termFor(binding.name.lexeme, typeOf(binding))),
+    body: lines.map((line) => line.slice(Math.min(dedent, line.length))),
+  };
+  return {
+    title: "Extract to contract",
+    kind: CodeActionKind.RefactorExtract,
+    command: { title: "Extract to contract", command: EXTRACT_CONTRACT_COMMAND, arguments: [args] },
+  };
+}
@@ -0,0 +1,138 @@
+import { CodeAction, CodeActionKind, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { childBlocks, DefNode, JobNode, NodeKind, ProgramNode, Statement } from "./lang/ast";
+import { lexText } from "./lang/lexer";
+import { parseText } from "./lang/parser";
+import { Binding, BindingReference, resolveProgram } from "./lang/resolver";
+import { TokenKind } from "./lang/tokens";
+import { BUILTIN_FUNCTIONS } from "./lang/typeChecker";
+import { formatDocumentRange } from "./formatting";
+import { comparePositions, contains, intersects } from "./ranges";
+
+const DEF_NAME = "extracted";
+
+type Header = JobNode | DefNode;
+type NestedBlock = { range: Range; statements: Statement[]; header: Header };
+type Selection = { statements: Statement[]; header: Header };
+
+export type ExtractableSelection = {
+  program: ProgramNode;
+  span: Range;
+  references: BindingReference[];
+  inputs: Binding[];
+  outputs: Binding[];
+};
+
+function nestedBlocks(statement: Statement, header: Header | undefined): NestedBlock[] {
+  const owner = statement.kind === NodeKind.Job || statement.kind === NodeKind.Def ? statement : header;
+  if (!owner) return [];
+  return childBlocks(statement).map((block) => ({ range: block.range, statements: block.statements, header: owner }));
+}
+
+// The contiguous statements of the innermost job, def, branch or brace block that the range touches.
+function selectStatements(statements: Statement[], range: Range, header?: Header): Selection | null {
+  const touched = statements.filter((statement) => intersects(statement.range, range));
+  if (touched.length === 0) return null;
+  if (touched.length === 1) {
+    for (const block of nestedBlocks(touched[0], header)) {
+      if (!contains(block.range, range)) continue;
+      const inner = selectStatements(block.statements, range, block.header);
+      if (inner) return inner;
+    }
+  }
+  if (!header || touched.some((statement) => statement.kind === NodeKind.Job || statement.kind === NodeKind.Def)) return null;
+  return { statements: touched, header };
+}
+
+// Whole-line selections start in the indentation and often end at the start of the next line.
+function trimSelection(lines: string[], range: Range): Range {
+  const indent = (line: number) => /^\s*/.exec(lines[line] ?? "")?.[0].length ?? 0;
+  const start = { line: range.start.line, character: Math.max(range.start.character, indent(range.start.line)) };
+  let end = range.end;
+  if (end.line > start.line && end.character <= indent(end.line)) end = { line: end.line - 1, character: (lines[end.line - 1] ?? "").length };
+  return { start, end };
+}
+
+function uniqueBindings(references: BindingReference[]): Binding[] {
+  return Array.from(new Set(references.map((reference) => reference.binding)));
+}
+
+/**
+ * The statements touched by `range` together with the labels they read from outside (inputs) and the
+ * labels they write that are used anywhere outside them or that assign the enclosing header's
+ * obligations (outputs). Statements are not ordered, so a read above the selection counts as well.
+ * Returns null when the statements cannot move out of their block.
+ */
+export function analyseSelection(text: string, range: Range): ExtractableSelection | null {
+  if (comparePositions(range.start, range.end) === 0) return null;
+  const { program } = parseText(text);
+  const selection = selectStatements(program.statements, trimSelection(text.split(/\r?\n/), range));
+  if (!selection) return null;
+
+  const first = selection.statements[0];
+  const last = selection.statements[selection.statements.length - 1];
+  const span: Range = { start: first.range.start, end: last.range.end };
+  // `$` refers to the enclosing job's or def's own flow, so statements using it cannot move.
+  if (lexText(text).tokens.some((token) => token.kind === TokenKind.Scope && contains(span, token.range))) return null;
+
+  const references = resolveProgram(program, { collectReferences: true }).references ?? [];
+  const inside = references.filter((reference) => contains(span, reference.token.range));
+  const declaredInside = (binding: Binding) => contains(span, binding.name.range);
+  const outside = references.filter((reference) => !contains(span, reference.token.range));
+
+  const inputs = uniqueBindings(inside.filter((reference) => reference.role === "read")).filter(
+    (binding) => !declaredInside(binding) && binding.kind !== "def"
+  );
+  const outputs = uniqueBindings(inside.filter((reference) => reference.role !== "read")).filter((binding) =>
+    declaredInside(binding)
+      ? outside.some((reference) => reference.binding === binding)
+      : binding.origin === "header" && binding.kind === "target"
+  );
+  if (outputs.some((binding) => binding.kind === "endpoint" || inputs.includes(binding))) return null;
+  return { program, span, references, inputs, outputs };
+}
+
+/**
+ * Replaces the selected statements with a call to a new def declared just above them, using the inputs
+ * and outputs found by `analyseSelection` as the def's parameters and targets.
+ */
+export function buildExtractDefAction(document: TextDocument, range: Range): CodeAction | null {
+  const text = document.getText();
+  const selection = analyseSelection(text, range);
+  if (!selection) return null;
+  const { span, references, inputs, outputs } = selection;
+
+  const occupied = new Set([...Object.keys(BUILTIN_FUNCTIONS), ...references.map((reference) => reference.binding.name.lexeme)]);
+  let name = DEF_NAME;
+  for (let suffix = 2; occupied.has(name); suffix++) name = `${DEF_NAME}_${suffix}`;
+
+  const startLine = span.start.line;
+  const endLine = span.end.line;
+  const lines = text.split(/\r?\n/);
+  const indent = /^\s*/.exec(lines[startLine])?.[0] ?? "";
+  const params = inputs.map((binding) => binding.name.lexeme).join(", ");
+  const targets = outputs.map((binding) => binding.name.lexeme).join(", ");
+  // Only the statements move; whatever shares their first or last line stays where it is.
+  const [firstStatementLine, ...statementLines] = document.getText(span).split(/\r?\n/);
+  const replacement = [
+    `${indent}def ${name}(${params})${targets ? ` ${targets}` : ""}:`,
+    `${indent}  ${firstStatementLine}`,
+    ...statementLines.map((line) => (line.trim() ? `  ${line}` : line)),
+    `${indent}end`,
+    `${indent}${name}(${params})${targets ? ` -> ${targets}` : ""}`,
+  ];
+
+  // Format the rewritten lines in place, then hand back only the replaced region.
+  const prefix = lines.slice(0, startLine).map((line) => `${line}\n`).join("");
+  const body = replacement.join("\n");
+  const tail = endLine + 1 < lines.length ? `\n${lines.slice(endLine + 1).join("\n")}` : "";
+  const draft = TextDocument.create(document.uri, document.languageId, document.version, `${prefix}${body}${tail}`);
+  const formatted = TextDocument.applyEdits(draft, formatDocumentRange(draft, startLine, startLine + replacement.length - 1));
+  const region = formatted.slice(prefix.length, formatted.length - tail.length).replace(/^[ \t]*/, "");
+
+  return {
+    title: `Extract to def '${name}'`,
+    kind: CodeActionKind.RefactorExtract,
+    edit: { changes: { [document.uri]: [TextEdit.replace(span, region)] } },
+  };
+}
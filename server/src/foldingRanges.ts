@@ -0,0 +1,148 @@
+import { FoldingRange, FoldingRangeKind, Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { braceBlocks, DefNode, forEachStatement, IfNode, ifNodeOf, JobNode, NodeKind, Statement, StatementNode } from "./lang/ast";
+import { lexText } from "./lang/lexer";
+import { parseText } from "./lang/parser";
+import { Token, TokenKind } from "./lang/tokens";
+import { collectBlockCommentRanges } from "./formatting";
+
+function addRange(ranges: FoldingRange[], startLine: number, endLine: number, kind?: string) {
+  if (endLine <= startLine) return;
+  ranges.push(FoldingRange.create(startLine, endLine, undefined, undefined, kind));
+}
+
+type ClosingKeywords = { elseTokens: Token[]; blockEnds: Map<string, Token> };
+
+const BLOCK_OPENING_KEYWORDS = new Set(["job", "def", "if"]);
+
+function positionKey(position: Position): string {
+  return `${position.line}:${position.character}`;
+}
+
+/**
+ * Pairs each `job`, `def` and `if` keyword with its closing `end`, keyed by the opener's start position.
+ * Parser ranges for these constructs do not reliably include the `end` line.
+ */
+export function matchBlockEnds(tokens: Token[]): Map<string, Token> {
+  const matches = new Map<string, Token>();
+  const open: Token[] = [];
+  for (const token of tokens) {
+    if (token.kind !== TokenKind.Keyword) continue;
+    const keyword = token.lexeme.toLowerCase();
+    if (BLOCK_OPENING_KEYWORDS.has(keyword)) {
+      open.push(token);
+    } else if (keyword === "end") {
+      const opener = open.pop();
+      if (opener) matches.set(positionKey(opener.range.start), token);
+    }
+  }
+  return matches;
+}
+
+export function findBlockEnd(blockEnds: Map<string, Token>, start: Position): Token | undefined {
+  return blockEnds.get(positionKey(start));
+}
+
+function collectIfRanges(ranges: FoldingRange[], statement: StatementNode, ifNode: IfNode, keywords: ClosingKeywords) {
+  // The `end` line stays visible.
+  const endToken = findBlockEnd(keywords.blockEnds, statement.range.start);
+  const endLine = endToken ? endToken.range.start.line - 1 : statement.range.end.line;
+  const elseToken = ifNode.elseBlock
+    ? keywords.elseTokens.find(
+        (token) =>
+          token.range.start.line >= ifNode.thenBlock.range.end.line &&
+          token.range.start.line <= ifNode.elseBlock!.range.start.line
+      )
+    : undefined;
+  if (elseToken) {
+    addRange(ranges, statement.range.start.line, elseToken.range.start.line - 1);
+    addRange(ranges, elseToken.range.start.line, endLine);
+  } else {
+    addRange(ranges, statement.range.start.line, endLine);
+  }
+}
+
+function collectStatementRanges(ranges: FoldingRange[], statements: Statement[], keywords: ClosingKeywords) {
+  forEachStatement(statements, (statement) => {
+    if (statement.kind === NodeKind.Job || statement.kind === NodeKind.Def) {
+      // Fold through to the line before the closing `end` so trailing comments are included and `end`
+      // stays visible.
+      const node = statement as JobNode | DefNode;
+      const endToken = findBlockEnd(keywords.blockEnds, node.range.start);
+      addRange(ranges, node.range.start.line, endToken ? endToken.range.start.line - 1 : node.range.end.line);
+      return;
+    }
+    const node = statement as StatementNode;
+    const ifNode = ifNodeOf(node);
+    if (ifNode) {
+      collectIfRanges(ranges, node, ifNode, keywords);
+    }
+    for (const block of braceBlocks(node)) {
+      // Brace blocks end on the closing `}` line, which stays visible.
+      addRange(ranges, block.range.start.line, block.range.end.line - 1);
+    }
+  });
+}
+
+function lineText(document: TextDocument, line: number): string {
+  return document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }).replace(/[\r\n]+$/, "");
+}
+
+function collectBlockCommentFolds(ranges: FoldingRange[], document: TextDocument) {
+  const commentRanges = collectBlockCommentRanges(document);
+  let runStart: number | undefined;
+  let runEnd: number | undefined;
+  const flush = () => {
+    if (runStart !== undefined && runEnd !== undefined) {
+      addRange(ranges, runStart, runEnd, FoldingRangeKind.Comment);
+    }
+    runStart = undefined;
+    runEnd = undefined;
+  };
+  for (const line of Array.from(commentRanges.keys()).sort((a, b) => a - b)) {
+    const lineRanges = commentRanges.get(line) ?? [];
+    // A comment left open at the end of the previous line continues from column 0 of this one.
+    if (runEnd !== line - 1 || !lineRanges.some((range) => range.startCharacter === 0)) {
+      flush();
+      runStart = line;
+    }
+    runEnd = line;
+    if (!lineRanges.some((range) => range.endCharacter >= lineText(document, line).length)) {
+      flush();
+    }
+  }
+  flush();
+}
+
+function collectLineCommentRuns(ranges: FoldingRange[], document: TextDocument) {
+  let runStart: number | undefined;
+  for (let line = 0; line <= document.lineCount; line++) {
+    if (line < document.lineCount && lineText(document, line).trim().startsWith("//")) {
+      runStart = runStart ?? line;
+      continue;
+    }
+    if (runStart !== undefined) {
+      addRange(ranges, runStart, line - 1, FoldingRangeKind.Comment);
+      runStart = undefined;
+    }
+  }
+}
+
+/**
+ * Folding regions for job, def, if/else and brace obligation blocks taken from the parser, plus runs of
+ * `//` comment lines and multi-line block comments.
+ */
+export function buildFoldingRanges(document: TextDocument): FoldingRange[] {
+  const text = document.getText();
+  const { program } = parseText(text);
+  const { tokens } = lexText(text);
+  const keywords: ClosingKeywords = {
+    elseTokens: tokens.filter((token) => token.kind === TokenKind.Keyword && token.lexeme.toLowerCase() === "else"),
+    blockEnds: matchBlockEnds(tokens),
+  };
+  const ranges: FoldingRange[] = [];
+  collectStatementRanges(ranges, program.statements, keywords);
+  collectLineCommentRuns(ranges, document);
+  collectBlockCommentFolds(ranges, document);
+  return ranges.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+}
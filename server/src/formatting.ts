@@ -279,7 +279,7 @@ function findLineCommentStart(text: string): number | null {
   return null;
 }
 
-function collectBlockCommentRanges(document: TextDocument): Map<number, FormattingCharacterRange[]> {
+export function collectBlockCommentRanges(document: TextDocument): Map<number, FormattingCharacterRange[]> {
   const protectedRanges = new Map<number, FormattingCharacterRange[]>();
   let inBlockComment = false;
 
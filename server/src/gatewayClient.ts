@@ -14,7 +14,7 @@ import { Defaults, normalizeContractClassification, normalizeProtocolClassificat
 type StudioConfig = { hostname: string; port: number; allowInsecure: boolean };
 type NetworkPaths = { rootPrefix: string; specPrefix: string };
 
-type RemoteRequirement = {
+export type RemoteRequirement = {
   name?: string;
   type: string;
   protocol?: string;
@@ -0,0 +1,113 @@
+import { Position, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DefNode, ExpressionNode, forEachStatement, NodeKind, StatementNode } from "./lang/ast";
+import { Defaults, normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
+import { parseText } from "./lang/parser";
+import { Token } from "./lang/tokens";
+import { TypeAtPosition, TypeKind, typeCheckProgram, typeToDisplayString } from "./lang/typeChecker";
+import { getDefaultsFromText } from "./completionSupport";
+import { RemoteContractSpec } from "./gatewayClient";
+import { comparePositions, rangeContains } from "./ranges";
+import { collaborationRole } from "./signatureHelp";
+
+// vscode-languageserver 7 predates inlay hints (LSP 3.17); these mirror the 3.17 wire shapes.
+export const InlayHintKind = { Type: 1, Parameter: 2 } as const;
+
+export type InlayHint = {
+  position: Position;
+  label: string;
+  kind: (typeof InlayHintKind)[keyof typeof InlayHintKind];
+  paddingLeft?: boolean;
+  paddingRight?: boolean;
+};
+
+export type InlayHintParams = { textDocument: { uri: string }; range: Range };
+
+export type InlayHintOptions = {
+  requirementNames: boolean;
+  targetTypes: boolean;
+  parameterTypes: boolean;
+};
+
+type HintContext = {
+  range: Range;
+  options: InlayHintOptions;
+  specs: Record<string, RemoteContractSpec>;
+  defaults: Defaults;
+  types: Map<string, TypeAtPosition["types"]>;
+  hints: InlayHint[];
+};
+
+function rangeKey(range: Range): string {
+  return `${range.start.line}:${range.start.character}-${range.end.line}:${range.end.character}`;
+}
+
+function addHint(ctx: HintContext, hint: InlayHint) {
+  if (!rangeContains(ctx.range, hint.position)) return;
+  ctx.hints.push(hint);
+}
+
+function addTypeHints(ctx: HintContext, tokens: Token[]) {
+  for (const token of tokens) {
+    const types = ctx.types.get(rangeKey(token.range));
+    if (!types || types.length === 0 || types.some((type) => type.kind === TypeKind.Unknown)) continue;
+    const label = types.length === 1 ? typeToDisplayString(types[0]) : `(${types.map(typeToDisplayString).join(", ")})`;
+    addHint(ctx, { position: token.range.end, label: `::${label}`, kind: InlayHintKind.Type });
+  }
+}
+
+function lookupSpec(ctx: HintContext, keyword: string, raw: string): RemoteContractSpec | undefined {
+  const normalized =
+    keyword === "sub" ? normalizeContractClassification(raw, ctx.defaults) : normalizeProtocolClassification(raw, ctx.defaults);
+  return (normalized && ctx.specs[normalized]) || ctx.specs[raw];
+}
+
+function addRequirementHints(ctx: HintContext, statement: StatementNode) {
+  const keyword = statement.keyword?.lexeme?.toLowerCase();
+  const raw = statement.classification?.lexeme;
+  if (!keyword || !raw || !statement.callArgs?.length) return;
+  const spec = lookupSpec(ctx, keyword, raw);
+  const requirements = spec ? collaborationRole(keyword, spec)?.requirements ?? [] : [];
+  statement.callArgs.forEach((arg: ExpressionNode, index) => {
+    const name = requirements[index]?.name;
+    // An argument already named after its requirement needs no hint.
+    if (!name || (arg.kind === NodeKind.Identifier && arg.token.lexeme === name)) return;
+    addHint(ctx, { position: arg.range.start, label: `${name}:`, kind: InlayHintKind.Parameter, paddingRight: true });
+  });
+}
+
+function addStatementHints(ctx: HintContext, statement: StatementNode | DefNode) {
+  if (statement.kind === NodeKind.Def) {
+    if (ctx.options.parameterTypes) addTypeHints(ctx, statement.params);
+    return;
+  }
+  if (ctx.options.requirementNames) addRequirementHints(ctx, statement);
+  if (ctx.options.targetTypes) addTypeHints(ctx, statement.targets);
+}
+
+/**
+ * Inlay hints within `range`: the requirement name before each sub/host/join argument, taken from the
+ * fetched specification, and the inferred type after each `->` target and def parameter.
+ */
+export function buildInlayHints(
+  document: TextDocument,
+  range: Range,
+  options: InlayHintOptions,
+  specs: Record<string, RemoteContractSpec> = {}
+): InlayHint[] {
+  if (!options.requirementNames && !options.targetTypes && !options.parameterTypes) return [];
+  const text = document.getText();
+  const { program } = parseText(text);
+  const defaults: Defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  const types = new Map<string, TypeAtPosition["types"]>();
+  if (options.targetTypes || options.parameterTypes) {
+    for (const entry of typeCheckProgram(program, { collectTypes: true, specs, defaults }).types ?? []) {
+      types.set(rangeKey(entry.range), entry.types);
+    }
+  }
+  const ctx: HintContext = { range, options, specs, defaults, types, hints: [] };
+  forEachStatement(program.statements, (statement) => {
+    if (statement.kind !== NodeKind.Job) addStatementHints(ctx, statement);
+  });
+  return ctx.hints.sort((a, b) => comparePositions(a.position, b.position));
+}
@@ -0,0 +1,146 @@
+import { CodeAction, CodeActionKind, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { CallNode, DefNode, forEachStatement, IdentifierNode, NodeKind, Statement, StatementNode } from "./lang/ast";
+import { lexText } from "./lang/lexer";
+import { parseText } from "./lang/parser";
+import { Binding, lookupBinding, resolveProgram } from "./lang/resolver";
+import { Token, TokenKind } from "./lang/tokens";
+import { BUILTIN_FUNCTIONS } from "./lang/typeChecker";
+import { findBlockEnd, matchBlockEnds } from "./foldingRanges";
+import { contains, rangeContains } from "./ranges";
+
+type Replacement = { start: number; end: number; text: string };
+
+function findDef(statements: Statement[], name: Token): DefNode | undefined {
+  let found: DefNode | undefined;
+  forEachStatement(statements, (statement) => {
+    if (statement.kind === NodeKind.Def && statement.name === name) found = statement;
+  });
+  return found;
+}
+
+function findCallStatement(statements: Statement[], callee: Token): StatementNode | undefined {
+  let found: StatementNode | undefined;
+  forEachStatement(statements, (statement) => {
+    const call = statement.kind === NodeKind.Statement ? (statement.expression as CallNode | null) : null;
+    if (call?.kind === NodeKind.Call && (call.callee as IdentifierNode).token === callee) found = statement as StatementNode;
+  });
+  return found;
+}
+
+function uniqueName(base: string, taken: Set<string>): string {
+  let candidate = base;
+  for (let suffix = 2; taken.has(candidate); suffix++) candidate = `${base}_${suffix}`;
+  taken.add(candidate);
+  return candidate;
+}
+
+function applyReplacements(text: string, offset: number, replacements: Replacement[]): string {
+  let result = text;
+  for (const replacement of [...replacements].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, replacement.start - offset) + replacement.text + result.slice(replacement.end - offset);
+  }
+  return result;
+}
+
+function fullLines(startLine: number, endLine: number): Range {
+  return { start: { line: startLine, character: 0 }, end: { line: endLine + 1, character: 0 } };
+}
+
+/**
+ * Replaces a call to a local def with the def's body. Parameters become the call's arguments (complex
+ * arguments are bound to a fresh label first), targets become the call's targets, and labels declared
+ * inside the def are renamed when they would clash with names at the call site. The def is deleted when
+ * this was its only call.
+ */
+export function buildInlineDefAction(document: TextDocument, range: Range): CodeAction | null {
+  const text = document.getText();
+  const { program } = parseText(text);
+  const references = resolveProgram(program, { collectReferences: true }).references ?? [];
+  const callReference = references.find(
+    (reference) => reference.binding.kind === "def" && reference.role === "read" && rangeContains(reference.token.range, range.start)
+  );
+  if (!callReference) return null;
+  const def = findDef(program.statements, callReference.binding.name);
+  const call = findCallStatement(program.statements, callReference.token);
+  if (!def || !call || def.body.statements.length === 0 || contains(def.range, call.range)) return null;
+  const args = (call.expression as CallNode).args;
+  if (args.length !== def.params.length || call.targets.length !== def.targets.length || call.obligationOrder?.some((item) => item?.kind === NodeKind.Block)) {
+    return null;
+  }
+
+  const first = def.body.statements[0];
+  const last = def.body.statements[def.body.statements.length - 1];
+  const tokens = lexText(text).tokens;
+  // The def's range stops at its last statement, which may itself be an `if` with its own `end`.
+  const endToken = findBlockEnd(matchBlockEnds(tokens), def.range.start);
+  const bodyStart = document.offsetAt({ line: first.range.start.line, character: 0 });
+  const bodyEnd = endToken
+    ? document.positionAt(bodyStart + text.slice(bodyStart, document.offsetAt(endToken.range.start)).trimEnd().length)
+    : last.range.end;
+  const body: Range = { start: { line: first.range.start.line, character: 0 }, end: bodyEnd };
+  // `$` inside the def is the def's own flow and has no equivalent at the call site.
+  if (tokens.some((token) => token.kind === TokenKind.Scope && contains(body, token.range))) return null;
+
+  // Names the inlined statements must not capture: everything visible at the call site plus the call's own labels.
+  const taken = new Set<string>([...Object.keys(BUILTIN_FUNCTIONS), ...call.targets.map((target) => target.lexeme)]);
+  for (const reference of references) {
+    if (lookupBinding(callReference.scope, reference.binding.name.lexeme) === reference.binding) taken.add(reference.binding.name.lexeme);
+  }
+
+  const renamed = new Map<Binding, string>();
+  const prelude: string[] = [];
+  def.params.forEach((param, index) => {
+    const binding = references.find((reference) => reference.token === param)?.binding;
+    if (!binding) return;
+    const arg = args[index];
+    const argText = text.slice(document.offsetAt(arg.range.start), document.offsetAt(arg.range.end));
+    if (arg.kind === NodeKind.Identifier || arg.kind === NodeKind.Literal) {
+      renamed.set(binding, argText);
+    } else {
+      const label = uniqueName(param.lexeme, taken);
+      prelude.push(`${argText} -> ${label}`);
+      renamed.set(binding, label);
+    }
+  });
+  def.targets.forEach((target, index) => {
+    const binding = references.find((reference) => reference.token === target)?.binding;
+    const callTarget = call.targets[index].lexeme;
+    if (binding) renamed.set(binding, callTarget === "_" ? uniqueName(target.lexeme, taken) : callTarget);
+  });
+
+  const inside = references.filter((reference) => contains(body, reference.token.range));
+  if (inside.some((reference) => reference.binding === callReference.binding)) return null;
+  const replacements: Replacement[] = [];
+  for (const reference of inside) {
+    const binding = reference.binding;
+    if (!renamed.has(binding) && contains(body, binding.name.range)) {
+      renamed.set(binding, taken.has(binding.name.lexeme) ? uniqueName(binding.name.lexeme, taken) : binding.name.lexeme);
+      taken.add(binding.name.lexeme);
+    }
+    const replacement = renamed.get(binding);
+    if (replacement !== undefined && replacement !== reference.token.lexeme) {
+      replacements.push({ start: document.offsetAt(reference.token.range.start), end: document.offsetAt(reference.token.range.end), text: replacement });
+    }
+  }
+
+  const bodyText = applyReplacements(text.slice(bodyStart, document.offsetAt(body.end)), bodyStart, replacements);
+  const bodyLines = bodyText.split(/\r?\n/);
+  const bodyIndent = Math.min(...bodyLines.filter((line) => line.trim()).map((line) => /^\s*/.exec(line)![0].length));
+  const callLine = document.getText(fullLines(call.range.start.line, call.range.start.line));
+  const indent = /^\s*/.exec(callLine)?.[0] ?? "";
+  const inlined = [...prelude.map((line) => `${indent}${line}`), ...bodyLines.map((line) => (line.trim() ? `${indent}${line.slice(bodyIndent)}` : ""))];
+
+  const edits = [TextEdit.replace(fullLines(call.range.start.line, call.range.end.line), `${inlined.join("\n")}\n`)];
+  const otherCalls = references.filter(
+    (reference) => reference.binding === callReference.binding && reference.role === "read" && reference !== callReference
+  );
+  if (otherCalls.length === 0 && endToken) {
+    edits.push(TextEdit.del(fullLines(def.range.start.line, endToken.range.end.line)));
+  }
+  return {
+    title: `Inline def '${def.name.lexeme}'`,
+    kind: CodeActionKind.RefactorInline,
+    edit: { changes: { [document.uri]: edits } },
+  };
+}
@@ -124,3 +124,31 @@ export function rangeFromTokens(start: Token, end: Token): Range {
 export function rangeFromNode(start: BaseNode, end: BaseNode): Range {
   return { start: start.range.start, end: end.range.end };
 }
+
+/** The `if` a statement holds; the parser stores it in place of the statement's expression. */
+export function ifNodeOf(statement: Statement): IfNode | undefined {
+  if (statement.kind !== NodeKind.Statement) return undefined;
+  return (statement.expression?.kind as NodeKind) === NodeKind.If ? (statement.expression as unknown as IfNode) : undefined;
+}
+
+/** The `{ }` obligation blocks a statement opens, in the order they appear among its targets. */
+export function braceBlocks(statement: StatementNode): BlockNode[] {
+  if (statement.obligationOrder) return statement.obligationOrder.filter((item): item is BlockNode => item?.kind === NodeKind.Block);
+  return statement.block ? [statement.block] : [];
+}
+
+/** The blocks directly inside a statement: a job or def body, the branches of an `if`, then any brace blocks. */
+export function childBlocks(statement: Statement): BlockNode[] {
+  if (statement.kind === NodeKind.Job || statement.kind === NodeKind.Def) return [statement.body];
+  const ifNode = ifNodeOf(statement);
+  const branches = ifNode ? [ifNode.thenBlock, ...(ifNode.elseBlock ? [ifNode.elseBlock] : [])] : [];
+  return [...branches, ...braceBlocks(statement)];
+}
+
+/** Visits every statement at any depth, jobs and defs included, each before the statements inside it. */
+export function forEachStatement(statements: Statement[], visit: (statement: Statement) => void): void {
+  for (const statement of statements) {
+    visit(statement);
+    for (const block of childBlocks(statement)) forEachStatement(block.statements, visit);
+  }
+}
@@ -0,0 +1,170 @@
+import { BlockNode, braceBlocks, DefNode, ExpressionNode, IfNode, ifNodeOf, JobNode, NodeKind, ProgramNode, Statement } from "./ast";
+import { SyntaxDiagnostic, Token } from "./tokens";
+
+/** What one block assigns on every path through it, and the labels it declares for its own scope. */
+interface Frame {
+  assigned: Map<string, Token>;
+  declared: Set<string>;
+}
+
+interface Body {
+  /** Header targets, which branches assign rather than shadow. */
+  obligations: Set<string>;
+  /** Every name assigned anywhere in the body, on any path. */
+  written: Set<string>;
+  frames: Map<BlockNode, Frame>;
+  diagnostics: SyntaxDiagnostic[];
+}
+
+// Brace blocks do not open a scope, so their statements belong to the enclosing block.
+function scopeStatements(statements: Statement[]): Statement[] {
+  return statements.flatMap((statement) =>
+    statement.kind === NodeKind.Statement ? [statement, ...braceBlocks(statement).flatMap((block) => scopeStatements(block.statements))] : [statement]
+  );
+}
+
+function forEachRead(expression: ExpressionNode | null | undefined, visit: (token: Token) => void) {
+  if (!expression) return;
+  switch (expression.kind) {
+    case NodeKind.Identifier:
+      visit(expression.token);
+      return;
+    case NodeKind.Unary:
+      forEachRead(expression.operand, visit);
+      return;
+    case NodeKind.Binary:
+      forEachRead(expression.left, visit);
+      forEachRead(expression.right, visit);
+      return;
+    case NodeKind.Qualified:
+      forEachRead(expression.base, visit);
+      return;
+    case NodeKind.ListLiteral:
+      expression.elements.forEach((element) => forEachRead(element, visit));
+      return;
+    case NodeKind.Call:
+      forEachRead(expression.callee, visit);
+      expression.args.forEach((arg) => forEachRead(arg, visit));
+      return;
+    default:
+      return;
+  }
+}
+
+function collectWrites(block: BlockNode, written: Set<string>) {
+  for (const statement of scopeStatements(block.statements)) {
+    if (statement.kind !== NodeKind.Statement) continue;
+    statement.targets.forEach((target) => written.add(target.lexeme));
+    const ifNode = ifNodeOf(statement);
+    if (ifNode) {
+      collectWrites(ifNode.thenBlock, written);
+      if (ifNode.elseBlock) collectWrites(ifNode.elseBlock, written);
+    }
+  }
+}
+
+function frameFor(block: BlockNode, body: Body): Frame {
+  const cached = body.frames.get(block);
+  if (cached) return cached;
+  const frame: Frame = { assigned: new Map(), declared: new Set() };
+  const assign = (token: Token) => {
+    if (!frame.assigned.has(token.lexeme)) frame.assigned.set(token.lexeme, token);
+  };
+  for (const statement of scopeStatements(block.statements)) {
+    if (statement.kind !== NodeKind.Statement) continue;
+    const ifNode = ifNodeOf(statement);
+    if (!ifNode) {
+      statement.targets.forEach((target) => {
+        frame.declared.add(target.lexeme);
+        assign(target);
+      });
+      continue;
+    }
+    // Labels a branch declares stay in the branch; only obligations it assigns are visible afterwards.
+    const thenAssigned = frameFor(ifNode.thenBlock, body).assigned;
+    const elseAssigned = ifNode.elseBlock ? frameFor(ifNode.elseBlock, body).assigned : new Map<string, Token>();
+    for (const [name, token] of thenAssigned) {
+      if (body.obligations.has(name) && elseAssigned.has(name)) assign(token);
+    }
+    for (const target of ifNode.targets) {
+      frame.declared.add(target.lexeme);
+      // Without an else branch the trailing outputs are only produced when the condition holds.
+      if (ifNode.elseBlock) assign(target);
+    }
+  }
+  body.frames.set(block, frame);
+  return frame;
+}
+
+function checkRead(token: Token, path: Frame[], body: Body) {
+  const name = token.lexeme;
+  const declared = body.obligations.has(name) || path.some((frame) => frame.declared.has(name));
+  if (!declared || !body.written.has(name) || path.some((frame) => frame.assigned.has(name))) return;
+  body.diagnostics.push({ message: `Label '${name}' may be read before it is assigned`, range: token.range, code: "EC1010" });
+}
+
+function checkBranches(ifNode: IfNode, path: Frame[], body: Body) {
+  const onPath = (name: string) => path.some((frame) => frame.assigned.has(name));
+  const thenAssigned = frameFor(ifNode.thenBlock, body).assigned;
+  const elseAssigned = ifNode.elseBlock ? frameFor(ifNode.elseBlock, body).assigned : new Map<string, Token>();
+  const report = (token: Token, assignedIn: string, missingIn: string) =>
+    body.diagnostics.push({
+      message: `Obligation '${token.lexeme}' is assigned in the ${assignedIn} branch but not in the ${missingIn} branch`,
+      range: token.range,
+      code: "EC1009",
+    });
+  for (const [name, token] of thenAssigned) {
+    if (body.obligations.has(name) && !elseAssigned.has(name) && !onPath(name)) report(token, "then", "else");
+  }
+  for (const [name, token] of elseAssigned) {
+    if (body.obligations.has(name) && !thenAssigned.has(name) && !onPath(name)) report(token, "else", "then");
+  }
+  if (ifNode.elseBlock) return;
+  for (const target of ifNode.targets) {
+    if (body.obligations.has(target.lexeme) && !onPath(target.lexeme)) report(target, "then", "else");
+  }
+}
+
+function checkBlock(block: BlockNode, chain: Frame[], body: Body) {
+  const path = [...chain, frameFor(block, body)];
+  for (const statement of scopeStatements(block.statements)) {
+    if (statement.kind === NodeKind.Def) {
+      checkBody(statement as DefNode, body.diagnostics);
+      continue;
+    }
+    if (statement.kind !== NodeKind.Statement) continue;
+    const ifNode = ifNodeOf(statement);
+    if (ifNode) {
+      forEachRead(ifNode.condition, (token) => checkRead(token, path, body));
+      checkBranches(ifNode, path, body);
+      checkBlock(ifNode.thenBlock, path, body);
+      if (ifNode.elseBlock) checkBlock(ifNode.elseBlock, path, body);
+      continue;
+    }
+    forEachRead(statement.expression, (token) => checkRead(token, path, body));
+    (statement.callArgs ?? []).forEach((arg) => forEachRead(arg, (token) => checkRead(token, path, body)));
+  }
+}
+
+function checkBody(owner: JobNode | DefNode | ProgramNode, diagnostics: SyntaxDiagnostic[]) {
+  const block = owner.kind === NodeKind.Program ? (owner as unknown as BlockNode) : owner.body;
+  const targets = owner.kind === NodeKind.Program ? [] : owner.targets;
+  const body: Body = { obligations: new Set(targets.map((target) => target.lexeme)), written: new Set(), frames: new Map(), diagnostics };
+  collectWrites(block, body.written);
+  checkBlock(block, [], body);
+}
+
+/**
+ * Definite-assignment warnings across `if`/`else` branches: obligations that one branch assigns and the
+ * other does not, and labels read on a path that never assigns them. Statements in an expression are
+ * not ordered, so "before" means on a path through the branches rather than earlier in the text.
+ * Obligations that are never assigned at all are left to the usage check.
+ */
+export function checkDefiniteAssignment(program: ProgramNode): SyntaxDiagnostic[] {
+  const diagnostics: SyntaxDiagnostic[] = [];
+  for (const statement of program.statements) {
+    if (statement.kind === NodeKind.Job) checkBody(statement as JobNode, diagnostics);
+  }
+  checkBody(program, diagnostics);
+  return diagnostics;
+}
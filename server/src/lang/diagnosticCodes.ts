@@ -0,0 +1,61 @@
+export type DiagnosticLevel = "error" | "warning" | "information" | "hint";
+
+export interface DiagnosticRule {
+  name: string;
+  severity: DiagnosticLevel;
+}
+
+/**
+ * Every diagnostic the lexer, parser, resolver, type checker, usage and assignment checks and lint rules
+ * report, keyed by its stable code. EC0xxx are syntax and suppression comments, EC1xxx names and
+ * assignment, EC2xxx specification conformance, EC3xxx types and EC4xxx the convention rules enabled by
+ * `.emergentlint.json`.
+ * Codes are never reused; retire a rule by leaving its entry in place.
+ */
+export const DIAGNOSTIC_RULES = {
+  EC0001: { name: "unterminated-string", severity: "error" },
+  EC0002: { name: "unterminated-comment", severity: "error" },
+  EC0003: { name: "unrecognized-character", severity: "error" },
+  EC0004: { name: "missing-supplier", severity: "error" },
+  EC0005: { name: "expected-token", severity: "error" },
+  EC0006: { name: "unexpected-token", severity: "error" },
+  EC0007: { name: "unclosed-block", severity: "error" },
+  EC0008: { name: "trailing-comma", severity: "error" },
+  EC0009: { name: "unused-suppression", severity: "warning" },
+  EC1001: { name: "undefined-name", severity: "error" },
+  EC1002: { name: "undefined-scope", severity: "error" },
+  EC1003: { name: "duplicate-declaration", severity: "error" },
+  EC1004: { name: "reserved-name", severity: "error" },
+  EC1005: { name: "unused-parameter", severity: "warning" },
+  EC1006: { name: "unused-label", severity: "warning" },
+  EC1007: { name: "unused-def", severity: "warning" },
+  EC1008: { name: "unassigned-obligation", severity: "warning" },
+  EC1009: { name: "partially-assigned-obligation", severity: "warning" },
+  EC1010: { name: "read-before-assignment", severity: "warning" },
+  EC2001: { name: "unknown-specification", severity: "warning" },
+  EC2002: { name: "requirement-count-mismatch", severity: "error" },
+  EC2003: { name: "obligation-count-mismatch", severity: "error" },
+  EC2004: { name: "misplaced-supplier", severity: "error" },
+  EC2005: { name: "unavailable-supplier", severity: "warning" },
+  EC3001: { name: "type-mismatch", severity: "error" },
+  EC3002: { name: "unknown-type", severity: "information" },
+  EC3003: { name: "invalid-operands", severity: "error" },
+  EC3004: { name: "branch-type-mismatch", severity: "error" },
+  EC3005: { name: "branch-output-count-mismatch", severity: "error" },
+  EC3006: { name: "not-callable", severity: "error" },
+  EC3007: { name: "argument-count-mismatch", severity: "error" },
+  EC4001: { name: "label-naming", severity: "warning" },
+  EC4002: { name: "forbidden-supplier", severity: "warning" },
+  EC4003: { name: "max-job-length", severity: "warning" },
+  EC4004: { name: "require-defaults", severity: "warning" },
+  EC4005: { name: "prefer-shorthand-classification", severity: "warning" },
+} as const;
+
+export type DiagnosticCode = keyof typeof DIAGNOSTIC_RULES;
+
+/** Finds a rule by its code (`EC1001`) or its name (`undefined-name`). */
+export function findDiagnosticCode(key: string): DiagnosticCode | undefined {
+  const trimmed = key.trim();
+  if (trimmed.toUpperCase() in DIAGNOSTIC_RULES) return trimmed.toUpperCase() as DiagnosticCode;
+  return (Object.keys(DIAGNOSTIC_RULES) as DiagnosticCode[]).find((code) => DIAGNOSTIC_RULES[code].name === trimmed);
+}
@@ -1,4 +1,5 @@
 import { Position, Range } from "vscode-languageserver";
+import { parseSuppressionComment, Suppression } from "./suppressions";
 import { KEYWORDS, SyntaxDiagnostic, Token, TokenKind } from "./tokens";
 
 type State = {
@@ -8,6 +9,7 @@ type State = {
   text: string;
   diagnostics: SyntaxDiagnostic[];
   tokens: Token[];
+  suppressions: Suppression[];
   length: number;
   pendingClassification: boolean;
 };
@@ -119,6 +121,7 @@ function scanString(state: State, startOffset: number, startLine: number, startC
     if (ch === undefined) {
       state.diagnostics.push({
         message: "Unterminated string literal",
+        code: "EC0001",
         range: makeRange(state, startOffset, startLine, startCol),
       });
       inString = false;
@@ -190,7 +193,7 @@ function scanClassification(state: State, startOffset: number, startLine: number
   addToken(state, TokenKind.Classification, lexeme, startOffset, startLine, startCol);
 }
 
-export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDiagnostic[] } {
+export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDiagnostic[]; suppressions: Suppression[] } {
   const state: State = {
     text,
     offset: 0,
@@ -198,6 +201,7 @@ export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDia
     column: 0,
     diagnostics: [],
     tokens: [],
+    suppressions: [],
     length: text.length,
     pendingClassification: false,
   };
@@ -236,6 +240,7 @@ export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDia
         } else {
           state.diagnostics.push({
             message: "Expected supplier identifier after @",
+            code: "EC0004",
             range: makeRange(state, atOffset, atLine, atCol),
           });
         }
@@ -286,6 +291,11 @@ export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDia
       while (currentChar(state) !== undefined && currentChar(state) !== "\n") {
         advance(state);
       }
+      const suppression = parseSuppressionComment(
+        state.text.slice(startOffset, state.offset).trimEnd(),
+        makeRange(state, startOffset, startLine, startCol)
+      );
+      if (suppression) state.suppressions.push(suppression);
       continue;
     }
     if (ch === "/" && state.text[state.offset + 1] === "*") {
@@ -302,6 +312,7 @@ export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDia
       if (!closed) {
         state.diagnostics.push({
           message: "Unterminated block comment",
+          code: "EC0002",
           range: makeRange(state, startOffset, startLine, startCol),
         });
       }
@@ -442,6 +453,7 @@ export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDia
     advance(state);
     state.diagnostics.push({
       message: `Unrecognized character '${ch}'`,
+      code: "EC0003",
       range: makeRange(state, startOffset, startLine, startCol),
     });
     addToken(state, TokenKind.Unknown, ch, startOffset, startLine, startCol);
@@ -457,5 +469,5 @@ export function lexText(text: string): { tokens: Token[]; diagnostics: SyntaxDia
     },
   });
 
-  return { tokens: state.tokens, diagnostics: state.diagnostics };
+  return { tokens: state.tokens, diagnostics: state.diagnostics, suppressions: state.suppressions };
 }
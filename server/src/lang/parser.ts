@@ -20,6 +20,7 @@ import {
   CallNode,
 } from "./ast";
 import { lexText } from "./lexer";
+import { Suppression } from "./suppressions";
 
 type ParserState = {
   tokens: Token[];
@@ -47,7 +48,7 @@ function expect(state: ParserState, kind: TokenKind, message: string) {
   if (current(state).kind === kind) {
     return advance(state);
   }
-  state.diagnostics.push({ message, range: current(state).range });
+  state.diagnostics.push({ message, range: current(state).range, code: "EC0005" });
   return current(state);
 }
 
@@ -57,8 +58,8 @@ function skipNewlines(state: ParserState) {
   }
 }
 
-export function parseText(text: string): { program: ProgramNode; diagnostics: SyntaxDiagnostic[] } {
-  const { tokens, diagnostics } = lexText(text);
+export function parseText(text: string): { program: ProgramNode; diagnostics: SyntaxDiagnostic[]; suppressions: Suppression[] } {
+  const { tokens, diagnostics, suppressions } = lexText(text);
   const state: ParserState = { tokens, index: 0, diagnostics: [...diagnostics] };
   const statements: Statement[] = [];
 
@@ -80,7 +81,7 @@ export function parseText(text: string): { program: ProgramNode; diagnostics: Sy
     },
   };
 
-  return { program, diagnostics: state.diagnostics };
+  return { program, diagnostics: state.diagnostics, suppressions };
 }
 
 function parseStatement(state: ParserState): Statement {
@@ -313,7 +314,7 @@ function consumeBalanced(
     advance(state);
   }
   if (depth !== 0) {
-    state.diagnostics.push({ message: errorMessage ?? `Expected '${closeText}'`, range: current(state).range });
+    state.diagnostics.push({ message: errorMessage ?? `Expected '${closeText}'`, range: current(state).range, code: "EC0007" });
   }
 }
 
@@ -328,7 +329,7 @@ function parseIf(state: ParserState): IfNode {
     elseBlock = parseDelimitedBlock(state, ["end"]);
   }
   if (!(current(state).kind === TokenKind.Keyword && current(state).lexeme.toLowerCase() === "end")) {
-    state.diagnostics.push({ message: "Expected 'end' to close if", range: current(state).range });
+    state.diagnostics.push({ message: "Expected 'end' to close if", range: current(state).range, code: "EC0007" });
   } else {
     advance(state);
   }
@@ -369,7 +370,7 @@ function parseParameterList(state: ParserState, params: Token[]) {
     if (current(state).kind === TokenKind.Identifier || current(state).kind === TokenKind.Keyword || current(state).kind === TokenKind.Boolean) {
       params.push(advance(state));
     } else {
-      state.diagnostics.push({ message: "Expected parameter name", range: current(state).range });
+      state.diagnostics.push({ message: "Expected parameter name", range: current(state).range, code: "EC0005" });
       advance(state);
     }
     skipNewlines(state);
@@ -538,7 +539,7 @@ function parseJob(state: ParserState): JobNode {
   expect(state, TokenKind.Colon, "Expected ':' after job signature");
   const body = parseDelimitedBlock(state, ["end"]);
   if (!(current(state).kind === TokenKind.Keyword && current(state).lexeme.toLowerCase() === "end")) {
-    state.diagnostics.push({ message: "Expected 'end' to close job", range: current(state).range });
+    state.diagnostics.push({ message: "Expected 'end' to close job", range: current(state).range, code: "EC0007" });
   } else {
     advance(state);
   }
@@ -593,13 +594,13 @@ function parseDef(state: ParserState): DefNode {
   if (current(state).kind === TokenKind.Identifier || current(state).kind === TokenKind.Keyword) {
     name = advance(state);
   } else {
-    state.diagnostics.push({ message: "Expected identifier after 'def'", range: current(state).range });
+    state.diagnostics.push({ message: "Expected identifier after 'def'", range: current(state).range, code: "EC0005" });
   }
   const params: Token[] = [];
   if (current(state).kind === TokenKind.LParen) {
     parseParameterList(state, params);
   } else {
-    state.diagnostics.push({ message: "Expected '(' after def name", range: current(state).range });
+    state.diagnostics.push({ message: "Expected '(' after def name", range: current(state).range, code: "EC0005" });
   }
   let targets = parseInlineTargets(state, { allowNewlines: true });
   if (targets.length === 0 && looksLikeDeclarationHeaderTargetsAfterNewline(state)) {
@@ -610,7 +611,7 @@ function parseDef(state: ParserState): DefNode {
   }
   const body = parseDelimitedBlock(state, ["end"]);
   if (!(current(state).kind === TokenKind.Keyword && current(state).lexeme.toLowerCase() === "end")) {
-    state.diagnostics.push({ message: "Expected 'end' to close def", range: current(state).range });
+    state.diagnostics.push({ message: "Expected 'end' to close def", range: current(state).range, code: "EC0007" });
   } else {
     advance(state);
   }
@@ -665,7 +666,7 @@ function parseBraceBlock(state: ParserState): BlockNode {
   if (current(state).kind === TokenKind.RBrace) {
     advance(state);
   } else {
-    state.diagnostics.push({ message: "Expected '}'", range: current(state).range });
+    state.diagnostics.push({ message: "Expected '}'", range: current(state).range, code: "EC0007" });
   }
   const endToken = current(state).kind === TokenKind.RBrace ? current(state) : rbrace;
   return {
@@ -781,7 +782,7 @@ function parseTargetList(state: ParserState, targets: Token[], order?: Array<Tok
       targets.push(tok);
       if (order) order.push(tok);
     } else {
-      state.diagnostics.push({ message: "Expected identifier after '->'", range: current(state).range });
+      state.diagnostics.push({ message: "Expected identifier after '->'", range: current(state).range, code: "EC0005" });
       break;
     }
     if (current(state).kind === TokenKind.Comma) {
@@ -849,7 +850,7 @@ function parseUnary(state: ParserState): ExpressionNode | null {
     advance(state);
     const operand = parseUnary(state);
     if (!operand) {
-      state.diagnostics.push({ message: "Expected expression after unary operator", range: tok.range });
+      state.diagnostics.push({ message: "Expected expression after unary operator", range: tok.range, code: "EC0005" });
       return {
         kind: NodeKind.Unary,
         operator: tok,
@@ -903,7 +904,7 @@ function parsePostfix(state: ParserState): ExpressionNode | null {
         if (arg) {
           args.push(arg);
         } else {
-          state.diagnostics.push({ message: "Expected expression in argument list", range: current(state).range });
+          state.diagnostics.push({ message: "Expected expression in argument list", range: current(state).range, code: "EC0005" });
         }
         skipNewlines(state);
         if (current(state).kind === TokenKind.Comma) {
@@ -913,7 +914,7 @@ function parsePostfix(state: ParserState): ExpressionNode | null {
             lookahead++;
           }
           if (state.tokens[lookahead]?.kind === TokenKind.RParen) {
-            state.diagnostics.push({ message: "Trailing comma not allowed in argument list", range: current(state).range });
+            state.diagnostics.push({ message: "Trailing comma not allowed in argument list", range: current(state).range, code: "EC0008" });
             advance(state); // consume comma
             parsingArgs = false;
             continue;
@@ -973,7 +974,7 @@ function parsePrimary(state: ParserState): ExpressionNode | null {
           if (elem) {
             elements.push(elem);
           } else {
-            state.diagnostics.push({ message: "Expected expression in list", range: current(state).range });
+            state.diagnostics.push({ message: "Expected expression in list", range: current(state).range, code: "EC0005" });
           }
           skipNewlines(state);
           if (current(state).kind === TokenKind.Comma) {
@@ -997,7 +998,7 @@ function parsePrimary(state: ParserState): ExpressionNode | null {
       return inner ?? ({ kind: NodeKind.Literal, token: l, range } as any);
     }
     default:
-      state.diagnostics.push({ message: `Unexpected token '${tok.lexeme || tok.kind}'`, range: tok.range });
+      state.diagnostics.push({ message: `Unexpected token '${tok.lexeme || tok.kind}'`, range: tok.range, code: "EC0006" });
       advance(state);
       return null;
   }
@@ -1062,7 +1063,7 @@ function parseDefaults(state: ParserState): StatementNode {
     }
 
     // anything else is unexpected but continue
-    state.diagnostics.push({ message: `Unexpected token '${current(state).lexeme}' in defaults`, range: current(state).range });
+    state.diagnostics.push({ message: `Unexpected token '${current(state).lexeme}' in defaults`, range: current(state).range, code: "EC0006" });
     lastToken = advance(state);
     allowContinuationNewline = false;
     awaitingFirstEntry = false;
@@ -1,18 +1,39 @@
 import { SyntaxDiagnostic, Token, TokenKind } from "./tokens";
 import { BlockNode, DefNode, ExpressionNode, IdentifierNode, IfNode, JobNode, NodeKind, ProgramNode, QualifiedNode, ScopeRefNode, Statement } from "./ast";
 
-type BindingKind = "param" | "target" | "endpoint" | "def" | "builtin";
-type BindingOrigin = "header" | "body" | "builtin";
+export type BindingKind = "param" | "target" | "endpoint" | "def" | "builtin";
+export type BindingOrigin = "header" | "body" | "builtin";
 
-interface Binding {
+export interface Binding {
   name: Token;
   kind: BindingKind;
   origin: BindingOrigin;
 }
 
-interface Scope {
+export type ReferenceRole = "declaration" | "write" | "read";
+
+/** A single occurrence of a label, def name or parameter together with the binding it resolves to. */
+export interface BindingReference {
+  token: Token;
+  binding: Binding;
+  role: ReferenceRole;
+  // Scope the occurrence appears in; used to check what another name would resolve to at that point.
+  scope: Scope;
+}
+
+/** An identifier read that resolved to nothing, with the scope it was looked up in. */
+export interface UnresolvedName {
+  token: Token;
+  scope: Scope;
+}
+
+type ReferenceCollector = { references: BindingReference[]; unresolved: UnresolvedName[] };
+
+export interface Scope {
   parent?: Scope;
   bindings: Map<string, Binding>;
+  // Set for if/else branch scopes, which may assign obligations declared by the enclosing header.
+  branch?: boolean;
 }
 
 const BUILTIN_SCOPE_TOKEN: Token = {
@@ -39,8 +60,8 @@ const BUILTIN_FUNCTION_TOKENS: Token[] = [
   range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
 }));
 
-function makeScope(parent?: Scope): Scope {
-  const scope: Scope = { parent, bindings: new Map<string, Binding>() };
+function makeScope(parent?: Scope, branch = false): Scope {
+  const scope: Scope = { parent, bindings: new Map<string, Binding>(), branch };
   scope.bindings.set("$", { name: BUILTIN_SCOPE_TOKEN, kind: "builtin", origin: "builtin" });
   for (const token of BUILTIN_FUNCTION_TOKENS) {
     scope.bindings.set(token.lexeme, { name: token, kind: "builtin", origin: "builtin" });
@@ -48,35 +69,84 @@ function makeScope(parent?: Scope): Scope {
   return scope;
 }
 
+function recordReference(
+  collector: ReferenceCollector | undefined,
+  scope: Scope,
+  token: Token,
+  binding: Binding,
+  role: ReferenceRole
+) {
+  if (!collector || binding.origin === "builtin") return;
+  collector.references.push({ token, binding, role, scope });
+}
+
+/** Looks a name up through the scope chain, innermost first. */
+export function lookupBinding(scope: Scope, name: string): Binding | undefined {
+  let current: Scope | undefined = scope;
+  while (current) {
+    const binding = current.bindings.get(name);
+    if (binding) {
+      return binding;
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+function findBranchAssignableTarget(scope: Scope, name: string): Binding | undefined {
+  let current: Scope | undefined = scope;
+  while (current?.branch && current.parent) {
+    current = current.parent;
+    const binding = current.bindings.get(name);
+    if (binding) {
+      return binding.origin === "header" && binding.kind === "target" ? binding : undefined;
+    }
+  }
+  return undefined;
+}
+
 function declare(
   scope: Scope,
   token: Token,
   kind: BindingKind,
   diagnostics: SyntaxDiagnostic[],
-  origin: BindingOrigin = "body"
+  origin: BindingOrigin = "body",
+  collector?: ReferenceCollector
 ) {
   const name = token.lexeme;
   if (!name || name === "_") {
     return;
   }
   if (name === "$") {
-    diagnostics.push({ message: "Cannot redeclare reserved name '$'", range: token.range });
+    diagnostics.push({ message: "Cannot redeclare reserved name '$'", range: token.range, code: "EC1004" });
     return;
   }
   const existing = scope.bindings.get(name);
   if (existing) {
     if (existing.origin === "header" && existing.kind === "target" && kind === "target" && origin === "body") {
       // Assigning to a header-declared target; allowed.
+      recordReference(collector, scope, token, existing, "write");
       return;
     }
     if (existing.origin === "body" && existing.kind === "endpoint" && kind === "target" && origin === "body") {
       // Declarative endpoint body can be named by a later target in the same leaking scope.
+      recordReference(collector, scope, token, existing, "write");
       return;
     }
-    diagnostics.push({ message: `Duplicate declaration of '${name}'`, range: token.range });
+    diagnostics.push({ message: `Duplicate declaration of '${name}'`, range: token.range, code: "EC1003" });
     return;
   }
-  scope.bindings.set(name, { name: token, kind, origin });
+  if (kind === "target" && origin === "body") {
+    const headerTarget = findBranchAssignableTarget(scope, name);
+    if (headerTarget) {
+      // Branches assign the enclosing job/def obligation rather than shadowing it.
+      recordReference(collector, scope, token, headerTarget, "write");
+      return;
+    }
+  }
+  const binding: Binding = { name: token, kind, origin };
+  scope.bindings.set(name, binding);
+  recordReference(collector, scope, token, binding, "declaration");
 }
 
 const RESERVED_KEYWORDS = new Set(["sub", "job", "host", "join", "deliver", "def", "if", "then", "else", "end"]);
@@ -89,31 +159,32 @@ function resolveToken(scope: Scope, token: Token): Binding | undefined {
   if (token.kind === TokenKind.Keyword && RESERVED_KEYWORDS.has(token.lexeme.toLowerCase())) {
     return scope.bindings.get("$"); // treat reserved keywords as built-ins; no diagnostic
   }
-  let current: Scope | undefined = scope;
-  while (current) {
-    const binding = current.bindings.get(token.lexeme);
-    if (binding) {
-      return binding;
-    }
-    current = current.parent;
-  }
-  return undefined;
+  return lookupBinding(scope, token.lexeme);
 }
 
-function resolveExpression(expr: ExpressionNode | null, scope: Scope, diagnostics: SyntaxDiagnostic[]) {
+function resolveExpression(
+  expr: ExpressionNode | IfNode | null,
+  scope: Scope,
+  diagnostics: SyntaxDiagnostic[],
+  collector?: ReferenceCollector
+) {
   if (!expr) return;
   switch (expr.kind) {
     case NodeKind.Identifier: {
       const id = expr as IdentifierNode;
-      if (!resolveToken(scope, id.token)) {
-        diagnostics.push({ message: `Undefined name '${id.token.lexeme}'`, range: id.token.range });
+      const binding = resolveToken(scope, id.token);
+      if (!binding) {
+        diagnostics.push({ message: `Undefined name '${id.token.lexeme}'`, range: id.token.range, code: "EC1001" });
+        collector?.unresolved.push({ token: id.token, scope });
+      } else {
+        recordReference(collector, scope, id.token, binding, "read");
       }
       break;
     }
     case NodeKind.Scope: {
       const scopeRef = expr as ScopeRefNode;
       if (!resolveToken(scope, scopeRef.token)) {
-        diagnostics.push({ message: "Undefined scope reference '$'", range: scopeRef.range });
+        diagnostics.push({ message: "Undefined scope reference '$'", range: scopeRef.range, code: "EC1002" });
       }
       break;
     }
@@ -121,77 +192,95 @@ function resolveExpression(expr: ExpressionNode | null, scope: Scope, diagnostic
     case NodeKind.Literal:
       break;
     case NodeKind.Unary:
-      resolveExpression(expr.operand, scope, diagnostics);
+      resolveExpression(expr.operand, scope, diagnostics, collector);
       break;
     case NodeKind.Binary:
-      resolveExpression(expr.left, scope, diagnostics);
-      resolveExpression(expr.right, scope, diagnostics);
+      resolveExpression(expr.left, scope, diagnostics, collector);
+      resolveExpression(expr.right, scope, diagnostics, collector);
       break;
     case NodeKind.Qualified: {
       const qualified = expr as QualifiedNode;
-      resolveExpression(qualified.base, scope, diagnostics);
+      resolveExpression(qualified.base, scope, diagnostics, collector);
       break;
     }
+    case NodeKind.ListLiteral:
+      for (const element of expr.elements) {
+        resolveExpression(element, scope, diagnostics, collector);
+      }
+      break;
     case NodeKind.Call:
-      resolveExpression(expr.callee, scope, diagnostics);
+      resolveExpression(expr.callee, scope, diagnostics, collector);
       for (const arg of expr.args) {
-        resolveExpression(arg, scope, diagnostics);
+        resolveExpression(arg, scope, diagnostics, collector);
       }
       break;
+    case NodeKind.If:
+      resolveIf(expr as IfNode, scope, diagnostics, collector);
+      break;
   }
 }
 
-function resolveBlock(block: BlockNode, scope: Scope, diagnostics: SyntaxDiagnostic[]) {
-  predeclareBlock(block, scope, diagnostics);
+function resolveBlock(block: BlockNode, scope: Scope, diagnostics: SyntaxDiagnostic[], collector?: ReferenceCollector) {
+  predeclareBlock(block, scope, diagnostics, collector);
   for (const stmt of block.statements) {
-    resolveStatement(stmt, scope, diagnostics);
+    resolveStatement(stmt, scope, diagnostics, collector);
   }
 }
 
-function resolveIf(ifNode: IfNode, scope: Scope, diagnostics: SyntaxDiagnostic[]) {
-  resolveExpression(ifNode.condition, scope, diagnostics);
-  const thenScope = makeScope(scope);
-  resolveBlock(ifNode.thenBlock, thenScope, diagnostics);
+function resolveIf(ifNode: IfNode, scope: Scope, diagnostics: SyntaxDiagnostic[], collector?: ReferenceCollector) {
+  resolveExpression(ifNode.condition, scope, diagnostics, collector);
+  const thenScope = makeScope(scope, true);
+  resolveBlock(ifNode.thenBlock, thenScope, diagnostics, collector);
   if (ifNode.elseBlock) {
-    const elseScope = makeScope(scope);
-    resolveBlock(ifNode.elseBlock, elseScope, diagnostics);
+    const elseScope = makeScope(scope, true);
+    resolveBlock(ifNode.elseBlock, elseScope, diagnostics, collector);
   }
 }
 
-function resolveStatement(stmt: Statement, scope: Scope, diagnostics: SyntaxDiagnostic[]) {
+function resolveStatement(stmt: Statement, scope: Scope, diagnostics: SyntaxDiagnostic[], collector?: ReferenceCollector) {
   switch (stmt.kind) {
     case NodeKind.Job: {
       const job = stmt as JobNode;
       const jobScope = makeScope(scope);
       for (const param of job.params) {
-        declare(jobScope, param, "param", diagnostics, "header");
+        declare(jobScope, param, "param", diagnostics, "header", collector);
       }
       for (const target of job.targets) {
-        declare(jobScope, target, "target", diagnostics, "header");
+        declare(jobScope, target, "target", diagnostics, "header", collector);
       }
-      resolveBlock(job.body, jobScope, diagnostics);
+      resolveBlock(job.body, jobScope, diagnostics, collector);
       return;
     }
     case NodeKind.Def: {
       const def = stmt as DefNode;
       const defScope = makeScope(scope);
       for (const param of def.params) {
-        declare(defScope, param, "param", diagnostics, "header");
+        declare(defScope, param, "param", diagnostics, "header", collector);
       }
       for (const target of def.targets) {
-        declare(defScope, target, "target", diagnostics, "header");
+        declare(defScope, target, "target", diagnostics, "header", collector);
       }
-      resolveBlock(def.body, defScope, diagnostics);
+      resolveBlock(def.body, defScope, diagnostics, collector);
       return;
     }
     case NodeKind.Statement: {
       const endpointToken = getDeclarativeEndpointToken(stmt);
       if (endpointToken) {
-        if (!isBoundInScopeChain(scope, endpointToken.lexeme)) {
-          declare(scope, endpointToken, "endpoint", diagnostics, "body");
+        const existing = resolveToken(scope, endpointToken);
+        if (!existing) {
+          declare(scope, endpointToken, "endpoint", diagnostics, "body", collector);
+        } else {
+          recordReference(collector, scope, endpointToken, existing, "read");
         }
       } else {
-        resolveExpression(stmt.expression, scope, diagnostics);
+        resolveExpression(stmt.expression, scope, diagnostics, collector);
+      }
+      if (collector) {
+        // Call arguments may name spec-provided terms, so undefined names are left to the type checker;
+        // they are only walked here to record references.
+        for (const arg of stmt.callArgs ?? []) {
+          resolveExpression(arg, scope, [], collector);
+        }
       }
       const obligationOrder: Array<any> = ((stmt as any).obligationOrder as Array<any> | undefined) ?? [];
       const blocks: BlockNode[] =
@@ -202,7 +291,7 @@ function resolveStatement(stmt: Statement, scope: Scope, diagnostics: SyntaxDiag
           : [];
       for (const block of blocks) {
         // Braced blocks do not create new scopes; they leak to the current scope.
-        resolveBlock(block, scope, diagnostics);
+        resolveBlock(block, scope, diagnostics, collector);
       }
       return;
     }
@@ -223,36 +312,31 @@ function getDeclarativeEndpointToken(stmt: Statement): Token | null {
   return token;
 }
 
-function isBoundInScopeChain(scope: Scope, name: string): boolean {
-  let current: Scope | undefined = scope;
-  while (current) {
-    if (current.bindings.has(name)) return true;
-    current = current.parent;
-  }
-  return false;
-}
-
-export function resolveProgram(program: ProgramNode): { diagnostics: SyntaxDiagnostic[] } {
+export function resolveProgram(
+  program: ProgramNode,
+  options?: { collectReferences?: boolean }
+): { diagnostics: SyntaxDiagnostic[]; references?: BindingReference[]; unresolved?: UnresolvedName[] } {
   const diagnostics: SyntaxDiagnostic[] = [];
+  const collector: ReferenceCollector | undefined = options?.collectReferences ? { references: [], unresolved: [] } : undefined;
   const rootScope = makeScope();
-  predeclareBlock(program as unknown as BlockNode, rootScope, diagnostics);
+  predeclareBlock(program as unknown as BlockNode, rootScope, diagnostics, collector);
   for (const stmt of program.statements) {
-    resolveStatement(stmt, rootScope, diagnostics);
+    resolveStatement(stmt, rootScope, diagnostics, collector);
   }
-  return { diagnostics };
+  return { diagnostics, references: collector?.references, unresolved: collector?.unresolved };
 }
 
-function predeclareBlock(block: BlockNode, scope: Scope, diagnostics: SyntaxDiagnostic[]) {
+function predeclareBlock(block: BlockNode, scope: Scope, diagnostics: SyntaxDiagnostic[], collector?: ReferenceCollector) {
   for (const stmt of block.statements) {
     switch (stmt.kind) {
       case NodeKind.Def: {
         const def = stmt as DefNode;
-        declare(scope, def.name, "def", diagnostics, "header");
+        declare(scope, def.name, "def", diagnostics, "header", collector);
         continue;
       }
       case NodeKind.Statement: {
         for (const target of stmt.targets) {
-          declare(scope, target, "target", diagnostics, "body");
+          declare(scope, target, "target", diagnostics, "body", collector);
         }
         continue;
       }
@@ -0,0 +1,79 @@
+import { Range } from "vscode-languageserver";
+import { DiagnosticCode, findDiagnosticCode } from "./diagnosticCodes";
+import { SyntaxDiagnostic } from "./tokens";
+
+export type SuppressionScope = "next-line" | "file";
+
+export interface SuppressedCode {
+  /** As written in the comment; may be a rule name or a code that does not exist. */
+  text: string;
+  code?: DiagnosticCode;
+  range: Range;
+}
+
+export interface Suppression {
+  scope: SuppressionScope;
+  /** The line whose diagnostics are suppressed; the comment's own line for `file` suppressions. */
+  line: number;
+  range: Range;
+  codes: SuppressedCode[];
+}
+
+const SUPPRESSION_PATTERN = /^\/\/\s*ec-ignore-(next-line|file)\b/;
+
+/**
+ * Recognises `// ec-ignore-next-line <code>...` and `// ec-ignore-file <code>...` line comments. Codes
+ * are separated by commas or whitespace and may be written as codes (`EC1001`) or rule names.
+ */
+export function parseSuppressionComment(comment: string, range: Range): Suppression | null {
+  const match = SUPPRESSION_PATTERN.exec(comment);
+  if (!match) return null;
+  const codes: SuppressedCode[] = [];
+  const list = /[^\s,]+/g;
+  list.lastIndex = match[0].length;
+  for (let item = list.exec(comment); item; item = list.exec(comment)) {
+    const character = range.start.character + item.index;
+    codes.push({
+      text: item[0],
+      code: findDiagnosticCode(item[0]),
+      range: { start: { line: range.start.line, character }, end: { line: range.start.line, character: character + item[0].length } },
+    });
+  }
+  const scope = match[1] as SuppressionScope;
+  return { scope, line: scope === "file" ? range.start.line : range.start.line + 1, range, codes };
+}
+
+/**
+ * Drops the diagnostics a suppression comment covers and reports every suppressed code that did not
+ * match a diagnostic. Only codes in `checked` can be unused: a check that did not run, such as the usage
+ * warnings on a document with syntax errors, says nothing about its suppressions. Unused-suppression
+ * warnings are suppressed like any other code, by a comment on the line above or for the file; an
+ * `EC0009` entry is never reported as unused itself.
+ */
+export function applySuppressions(
+  diagnostics: SyntaxDiagnostic[],
+  suppressions: Suppression[],
+  checked: ReadonlySet<DiagnosticCode>
+): SyntaxDiagnostic[] {
+  const used = new Set<SuppressedCode>();
+  const covering = (diagnostic: SyntaxDiagnostic) =>
+    suppressions
+      .filter((suppression) => suppression.scope === "file" || suppression.line === diagnostic.range.start.line)
+      .flatMap((suppression) => suppression.codes)
+      .filter((entry) => entry.code === diagnostic.code);
+
+  const kept = diagnostics.filter((diagnostic) => {
+    const entries = covering(diagnostic);
+    entries.forEach((entry) => used.add(entry));
+    return entries.length === 0;
+  });
+  const unused: SyntaxDiagnostic[] = suppressions
+    .flatMap((suppression) => suppression.codes)
+    .filter((entry) => !used.has(entry) && entry.code !== "EC0009" && (!entry.code || checked.has(entry.code)))
+    .map((entry) => ({
+      message: entry.code ? `Unused suppression for '${entry.text}'` : `Unknown diagnostic code '${entry.text}' in suppression`,
+      range: entry.range,
+      code: "EC0009",
+    }));
+  return [...kept, ...unused.filter((diagnostic) => covering(diagnostic).length === 0)];
+}
@@ -1,4 +1,5 @@
 import { Position, Range } from "vscode-languageserver";
+import { DiagnosticCode } from "./diagnosticCodes";
 
 export enum TokenKind {
   EOF = "EOF",
@@ -47,6 +48,9 @@ export interface Token {
 export interface SyntaxDiagnostic {
   message: string;
   range: Range;
+  code: DiagnosticCode;
+  /** Details for quick fixes, sent with the diagnostic as its LSP `data`. */
+  data?: unknown;
 }
 
 export type Keyword =
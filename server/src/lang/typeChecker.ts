@@ -2,6 +2,7 @@ import { Range } from "vscode-languageserver";
 import { RemoteContractSpec } from "../gatewayClient";
 import { BlockNode, DefNode, ExpressionNode, IfNode, JobNode, NodeKind, ProgramNode, QualifiedNode, ScopeRefNode, Statement } from "./ast";
 import { normalizeContractClassification, normalizeProtocolClassification, Defaults } from "./normalization";
+import { DiagnosticCode } from "./diagnosticCodes";
 import { SyntaxDiagnostic, Token, TokenKind } from "./tokens";
 
 export enum TypeKind {
@@ -58,7 +59,7 @@ const SCOPE_TYPE: Type = { kind: TypeKind.Scope };
 
 type BuiltinSignature = { params: Type[]; returns: Type[]; variadic?: Type; enforceArity?: boolean };
 
-const BUILTIN_FUNCTIONS: Record<string, BuiltinSignature> = {
+export const BUILTIN_FUNCTIONS: Record<string, BuiltinSignature> = {
   max: { params: [INTEGER, INTEGER], returns: [INTEGER], variadic: INTEGER },
   min: { params: [INTEGER, INTEGER], returns: [INTEGER], variadic: INTEGER },
   concat: { params: [STRING, STRING], returns: [STRING], variadic: STRING },
@@ -222,8 +223,11 @@ export function typeToDisplayString(type: Type): string {
   return typeToString(type);
 }
 
-function addTypeError(diagnostics: SyntaxDiagnostic[], range: Range, message: string) {
-  diagnostics.push({ message, range });
+/** The `data` of requirement and obligation count mismatches (EC2002, EC2003). */
+export type CountMismatchData = { expected: number; actual: number };
+
+function addTypeError(diagnostics: SyntaxDiagnostic[], range: Range, message: string, code: DiagnosticCode, data?: CountMismatchData) {
+  diagnostics.push(data === undefined ? { message, range, code } : { message, range, code, data });
 }
 
 function clearUnknownDiagnostic(diagnostics: SyntaxDiagnostic[], token: Token) {
@@ -447,38 +451,38 @@ function propagateExpectedType(
 function ensureBoolean(type: Type, range: Range, diagnostics: SyntaxDiagnostic[]) {
   if (isUnknown(type)) return;
   if (type.kind !== TypeKind.Boolean) {
-    addTypeError(diagnostics, range, `Expected BOOLEAN, got ${typeToString(type)}`);
+    addTypeError(diagnostics, range, `Expected BOOLEAN, got ${typeToString(type)}`, "EC3001");
   }
 }
 
 function ensureInteger(type: Type, range: Range, diagnostics: SyntaxDiagnostic[]) {
   if (isUnknown(type)) return;
   if (type.kind !== TypeKind.Integer) {
-    addTypeError(diagnostics, range, `Expected INTEGER, got ${typeToString(type)}`);
+    addTypeError(diagnostics, range, `Expected INTEGER, got ${typeToString(type)}`, "EC3001");
   }
 }
 
 function ensureString(type: Type, range: Range, diagnostics: SyntaxDiagnostic[]) {
   if (isUnknown(type)) return;
   if (type.kind !== TypeKind.String) {
-    addTypeError(diagnostics, range, `Expected STRING, got ${typeToString(type)}`);
+    addTypeError(diagnostics, range, `Expected STRING, got ${typeToString(type)}`, "EC3001");
   }
 }
 
 function ensureAssignable(expected: Type, actual: Type, range: Range, diagnostics: SyntaxDiagnostic[], treatUnknownAsMismatch = false) {
   if (treatUnknownAsMismatch && !isUnknown(expected) && isUnknown(actual)) {
-    addTypeError(diagnostics, range, `Type mismatch: expected ${typeToString(expected)}, got UNKNOWN`);
+    addTypeError(diagnostics, range, `Type mismatch: expected ${typeToString(expected)}, got UNKNOWN`, "EC3001");
     return;
   }
   if (isUnknown(expected) || isUnknown(actual)) return;
   if (expected.kind === TypeKind.Classification && actual.kind === TypeKind.Classification) {
     if (expected.classification && actual.classification && expected.classification !== actual.classification) {
-      addTypeError(diagnostics, range, `Type mismatch: expected ${typeToString(expected)}, got ${typeToString(actual)}`);
+      addTypeError(diagnostics, range, `Type mismatch: expected ${typeToString(expected)}, got ${typeToString(actual)}`, "EC3001");
     }
     return;
   }
   if (expected.kind !== actual.kind) {
-    addTypeError(diagnostics, range, `Type mismatch: expected ${typeToString(expected)}, got ${typeToString(actual)}`);
+    addTypeError(diagnostics, range, `Type mismatch: expected ${typeToString(expected)}, got ${typeToString(actual)}`, "EC3001");
   }
 }
 
@@ -689,7 +693,8 @@ function typeCheckStatement(
           buildUnknownSpecificationMessage("contract", classification, {
             normalizedClassification,
             specLookupIssues,
-          })
+          }),
+          "EC2001"
         );
       }
       const jobScope = makeScope(scope);
@@ -707,14 +712,18 @@ function typeCheckStatement(
         addTypeError(
           diagnostics,
           job.classification?.range ?? job.range,
-          `Requirement count mismatch: expected ${reqTerms.length}, got ${job.params.length}`
+          `Requirement count mismatch: expected ${reqTerms.length}, got ${job.params.length}`,
+          "EC2002",
+          { expected: reqTerms.length, actual: job.params.length }
         );
       }
       if (hasObligationCountMismatch) {
         addTypeError(
           diagnostics,
           job.classification?.range ?? job.range,
-          `Obligation count mismatch: expected ${oblTerms.length}, got ${job.targets.length}`
+          `Obligation count mismatch: expected ${oblTerms.length}, got ${job.targets.length}`,
+          "EC2003",
+          { expected: oblTerms.length, actual: job.targets.length }
         );
       }
       // Seed job target types from obligations before body type-checking so prechecked defs
@@ -760,7 +769,8 @@ function typeCheckStatement(
               addTypeError(
                 diagnostics,
                 target.range,
-                `Type mismatch: expected ${typeToString(obligationType)}, got ${typeToString(binding.type)}`
+                `Type mismatch: expected ${typeToString(obligationType)}, got ${typeToString(binding.type)}`,
+                "EC3001"
               );
             }
           }
@@ -880,7 +890,8 @@ function typeCheckStatement(
             : buildUnknownSpecificationMessage("classification", classification, {
                 normalizedClassification,
                 specLookupIssues,
-              })
+              }),
+              "EC2001"
         );
       }
       const roleSpec = resolved.roleSpec;
@@ -893,14 +904,16 @@ function typeCheckStatement(
         addTypeError(
           diagnostics,
           supplierTok.range,
-          "Supplier qualifier '@name' is only valid for sub statements."
+          "Supplier qualifier '@name' is only valid for sub statements.",
+          "EC2004"
         );
       } else if (supplierName && roleSpec && Array.isArray((roleSpec as any).suppliers) && (roleSpec as any).suppliers.length > 0) {
         if (!(roleSpec as any).suppliers.includes(supplierName)) {
           addTypeError(
             diagnostics,
             supplierTok.range,
-            `Supplier '${supplierName}' is not available for '${classification}'`
+            `Supplier '${supplierName}' is not available for '${classification}'`,
+            "EC2005"
           );
         }
       }
@@ -934,7 +947,9 @@ function typeCheckStatement(
           addTypeError(
             diagnostics,
             (stmt as any).classification?.range ?? stmt.range,
-            `Requirement count mismatch: expected ${requirements.length}, got ${callCount}`
+            `Requirement count mismatch: expected ${requirements.length}, got ${callCount}`,
+            "EC2002",
+            { expected: requirements.length, actual: callCount }
           );
         }
         const canUseImplicitBranchOutputs =
@@ -944,7 +959,9 @@ function typeCheckStatement(
           addTypeError(
             diagnostics,
             (stmt as any).classification?.range ?? stmt.range,
-            `Obligation count mismatch: expected ${obligations.length}, got ${actualObligations}`
+            `Obligation count mismatch: expected ${obligations.length}, got ${actualObligations}`,
+            "EC2003",
+            { expected: obligations.length, actual: actualObligations }
           );
         }
       }
@@ -984,7 +1001,8 @@ function typeCheckStatement(
                 addTypeError(
                   diagnostics,
                   scopeRef.range,
-                  `Type mismatch: expected ${typeToString(reqType)}, got ${typeToString(currentScopeType)}`
+                  `Type mismatch: expected ${typeToString(reqType)}, got ${typeToString(currentScopeType)}`,
+                  "EC3001"
                 );
                 callArgTypes[i] = currentScopeType;
                 skipEnsureAssignable = true;
@@ -1157,7 +1175,7 @@ function typeCheckExpression(
       const binding = lookup(scope, (expr as any).token.lexeme);
       const type = binding?.type ?? UNKNOWN;
       if (binding && type.kind === TypeKind.Unknown) {
-        addTypeError(diagnostics, (expr as any).token.range, `Type of '${(expr as any).token.lexeme}' is unknown`);
+        addTypeError(diagnostics, (expr as any).token.range, `Type of '${(expr as any).token.lexeme}' is unknown`, "EC3002");
       }
       recordTypes((expr as any).token.range, [type], collector);
       return [type];
@@ -1246,7 +1264,8 @@ function typeCheckExpression(
             addTypeError(
               diagnostics,
               binary.operator.range,
-              `Operator '+' requires INTEGER+INTEGER or STRING+STRING, got ${typeToString(left)} and ${typeToString(right)}`
+              `Operator '+' requires INTEGER+INTEGER or STRING+STRING, got ${typeToString(left)} and ${typeToString(right)}`,
+              "EC3003"
             );
           }
           break;
@@ -1289,7 +1308,8 @@ function typeCheckExpression(
             addTypeError(
               diagnostics,
               binary.operator.range,
-              `Operator '*' requires INTEGER*INTEGER or STRING*INTEGER, got ${typeToString(left)} and ${typeToString(right)}`
+              `Operator '*' requires INTEGER*INTEGER or STRING*INTEGER, got ${typeToString(left)} and ${typeToString(right)}`,
+              "EC3003"
             );
           }
           break;
@@ -1322,7 +1342,8 @@ function typeCheckExpression(
             addTypeError(
               diagnostics,
               binary.operator.range,
-              `Comparison requires matching types, got ${typeToString(left)} and ${typeToString(right)}`
+              `Comparison requires matching types, got ${typeToString(left)} and ${typeToString(right)}`,
+              "EC3003"
             );
           }
           result = [BOOLEAN];
@@ -1348,7 +1369,8 @@ function typeCheckExpression(
               addTypeError(
                 diagnostics,
                 binary.operator.range,
-                `Relational operators require INTEGER operands, got ${typeToString(left)} and ${typeToString(right)}`
+                `Relational operators require INTEGER operands, got ${typeToString(left)} and ${typeToString(right)}`,
+                "EC3003"
               );
             }
           }
@@ -1476,7 +1498,8 @@ function typeCheckExpression(
             addTypeError(
               diagnostics,
               ifNode.range,
-              `Branches assign different types to '${name}': ${typeToString(thenType)} vs ${typeToString(elseType)}`
+              `Branches assign different types to '${name}': ${typeToString(thenType)} vs ${typeToString(elseType)}`,
+              "EC3004"
             );
           }
         }
@@ -1497,14 +1520,16 @@ function typeCheckExpression(
           addTypeError(
             diagnostics,
             ifNode.thenBlock.range,
-            `If branch output count mismatch: expected ${outputCount}, got ${thenResults.length}`
+            `If branch output count mismatch: expected ${outputCount}, got ${thenResults.length}`,
+            "EC3005"
           );
         }
         if (ifNode.elseBlock && elseResults.length !== outputCount) {
           addTypeError(
             diagnostics,
             ifNode.elseBlock.range,
-            `If branch output count mismatch: expected ${outputCount}, got ${elseResults.length}`
+            `If branch output count mismatch: expected ${outputCount}, got ${elseResults.length}`,
+            "EC3005"
           );
         }
       }
@@ -1551,7 +1576,7 @@ function applyFunctionType(
 ): TypeResult {
   if (calleeType.kind !== TypeKind.Function) {
     if (!isUnknown(calleeType)) {
-      addTypeError(diagnostics, range, `Attempted to call non-function type ${typeToString(calleeType)}`);
+      addTypeError(diagnostics, range, `Attempted to call non-function type ${typeToString(calleeType)}`, "EC3006");
     }
     return [UNKNOWN];
   }
@@ -1561,10 +1586,10 @@ function applyFunctionType(
   const hasVariadic = !!fn.variadic;
   if (enforceArity) {
     if (!hasVariadic && argTypes.length !== expectedParams) {
-      addTypeError(diagnostics, range, `Expected ${expectedParams} arguments, got ${argTypes.length}`);
+      addTypeError(diagnostics, range, `Expected ${expectedParams} arguments, got ${argTypes.length}`, "EC3007");
     }
     if (hasVariadic && argTypes.length < expectedParams) {
-      addTypeError(diagnostics, range, `Expected at least ${expectedParams} arguments, got ${argTypes.length}`);
+      addTypeError(diagnostics, range, `Expected at least ${expectedParams} arguments, got ${argTypes.length}`, "EC3007");
     }
   }
 
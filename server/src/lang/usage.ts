@@ -0,0 +1,45 @@
+import { JobNode, NodeKind, ProgramNode } from "./ast";
+import { Binding, BindingReference, UnresolvedName } from "./resolver";
+import { SyntaxDiagnostic, Token } from "./tokens";
+
+function jobHeaderTokens(program: ProgramNode): { params: Set<Token>; targets: Set<Token> } {
+  const params = new Set<Token>();
+  const targets = new Set<Token>();
+  for (const statement of program.statements) {
+    if (statement.kind !== NodeKind.Job) continue;
+    (statement as JobNode).params.forEach((param) => params.add(param));
+    (statement as JobNode).targets.forEach((target) => targets.add(target));
+  }
+  return { params, targets };
+}
+
+/**
+ * Dead-code warnings built from the resolver's references: job parameters and labels that are never
+ * read, defs that are never called, and job obligations that nothing assigns. Names starting with `_`
+ * are treated as deliberately unused, and so are names read somewhere the resolver could not bind them,
+ * such as call arguments that refer forward to a label a later brace block declares.
+ */
+export function checkUsage(program: ProgramNode, references: BindingReference[], unresolved: UnresolvedName[] = []): SyntaxDiagnostic[] {
+  const roles = new Map<Binding, Set<BindingReference["role"]>>();
+  for (const reference of references) {
+    if (!roles.has(reference.binding)) roles.set(reference.binding, new Set());
+    roles.get(reference.binding)!.add(reference.role);
+  }
+  const header = jobHeaderTokens(program);
+  const unbound = new Set(unresolved.map((name) => name.token.lexeme));
+  const diagnostics: SyntaxDiagnostic[] = [];
+  for (const [binding, used] of roles) {
+    const { name } = binding;
+    if (name.lexeme.startsWith("_") || unbound.has(name.lexeme)) continue;
+    if (binding.kind === "param" && header.params.has(name) && !used.has("read")) {
+      diagnostics.push({ message: `Parameter '${name.lexeme}' is never read`, range: name.range, code: "EC1005" });
+    } else if (binding.kind === "target" && binding.origin === "body" && !used.has("read")) {
+      diagnostics.push({ message: `Label '${name.lexeme}' is assigned but never read`, range: name.range, code: "EC1006" });
+    } else if (binding.kind === "def" && !used.has("read")) {
+      diagnostics.push({ message: `Def '${name.lexeme}' is never called`, range: name.range, code: "EC1007" });
+    } else if (binding.kind === "target" && header.targets.has(name) && !used.has("write")) {
+      diagnostics.push({ message: `Obligation '${name.lexeme}' is never assigned`, range: name.range, code: "EC1008" });
+    }
+  }
+  return diagnostics;
+}
@@ -0,0 +1,113 @@
+import { CodeAction, Diagnostic } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { ProgramNode } from "./lang/ast";
+import { DiagnosticCode, DiagnosticLevel, findDiagnosticCode } from "./lang/diagnosticCodes";
+import { parseText } from "./lang/parser";
+import { SyntaxDiagnostic } from "./lang/tokens";
+import { getDefaultsFromText } from "./completionSupport";
+import { quickFix, samePosition } from "./codeActionSupport";
+import { LINT_RULES, LintProblem, LintRule } from "./lintRules";
+
+export const LINT_CONFIG_FILENAME = ".emergentlint.json";
+
+export interface LintRuleSetting {
+  level: DiagnosticLevel;
+  options: Record<string, unknown>;
+}
+
+/** The rules a `.emergentlint.json` file enables, keyed by code. Rules it does not mention stay off. */
+export interface LintConfig {
+  rules: Map<DiagnosticCode, LintRuleSetting>;
+}
+
+const LEVELS = new Set(["error", "warning", "information", "hint", "off"]);
+
+/**
+ * Reads a `.emergentlint.json` file. Each entry under `rules` is keyed by rule name or code and is either
+ * a level (`"warning"`, or `"off"`) or a `[level, options]` pair, as in ESLint. Entries that cannot be
+ * used are reported in `problems` and skipped.
+ */
+export function parseLintConfig(text: string, rules: LintRule<any>[] = LINT_RULES): { config: LintConfig; problems: string[] } {
+  const config: LintConfig = { rules: new Map() };
+  const problems: string[] = [];
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    return { config, problems: [`Invalid JSON: ${err?.message ?? err}`] };
+  }
+  const entries = parsed && typeof parsed.rules === "object" && !Array.isArray(parsed.rules) ? Object.entries(parsed.rules) : [];
+  for (const [key, value] of entries) {
+    const code = findDiagnosticCode(key);
+    if (!code || !rules.some((rule) => rule.code === code)) {
+      problems.push(`Unknown lint rule '${key}'`);
+      continue;
+    }
+    const [level, options] = Array.isArray(value) ? value : [value, {}];
+    if (!LEVELS.has(level)) {
+      problems.push(`Rule '${key}' has an invalid level '${level}'; use error, warning, information, hint or off`);
+      continue;
+    }
+    if (options !== undefined && (typeof options !== "object" || options === null || Array.isArray(options))) {
+      problems.push(`Rule '${key}' options must be an object`);
+      continue;
+    }
+    if (level !== "off") config.rules.set(code, { level, options: options ?? {} });
+  }
+  return { config, problems };
+}
+
+function lintProblems(
+  document: TextDocument,
+  program: ProgramNode,
+  config: LintConfig,
+  rules: LintRule<any>[]
+): Array<LintProblem & { code: DiagnosticCode }> {
+  const context = { document, program, defaults: getDefaultsFromText(document.getText()) };
+  return rules.flatMap((rule) => {
+    const setting = config.rules.get(rule.code);
+    if (!setting) return [];
+    return rule.check(context, { ...rule.defaultOptions, ...setting.options }).map((problem) => ({ ...problem, code: rule.code }));
+  });
+}
+
+/** Runs the enabled rules; the results go through suppressions and severity overrides like any other diagnostic. */
+export function runLintRules(
+  document: TextDocument,
+  program: ProgramNode,
+  config: LintConfig,
+  rules: LintRule<any>[] = LINT_RULES
+): SyntaxDiagnostic[] {
+  return lintProblems(document, program, config, rules).map(({ message, range, code }) => ({ message, range, code }));
+}
+
+/** Quick fixes for the lint diagnostics in `diagnostics` whose rule offers one. */
+export function buildLintFixes(
+  document: TextDocument,
+  diagnostics: Diagnostic[],
+  config: LintConfig | undefined,
+  rules: LintRule<any>[] = LINT_RULES
+): CodeAction[] {
+  const linted = diagnostics.filter(
+    (diagnostic) => diagnostic.source === "emergent" && typeof diagnostic.code === "string" && config?.rules.has(diagnostic.code as DiagnosticCode)
+  );
+  if (!config || linted.length === 0) return [];
+  const problems = lintProblems(document, parseText(document.getText()).program, config, rules);
+  const actions: CodeAction[] = [];
+  for (const diagnostic of linted) {
+    const problem = problems.find(
+      (candidate) =>
+        candidate.code === diagnostic.code &&
+        samePosition(candidate.range.start, diagnostic.range.start) &&
+        samePosition(candidate.range.end, diagnostic.range.end)
+    );
+    const fix = problem?.fix?.();
+    if (fix && fix.edits.length > 0) actions.push(quickFix(document, fix.title, diagnostic, fix.edits));
+  }
+  return actions;
+}
+
+/** Severity for each enabled rule, as set in the configuration file. */
+export function lintLevels(config: LintConfig | undefined): Array<[DiagnosticCode, DiagnosticLevel]> {
+  return [...(config?.rules ?? [])].map(([code, setting]) => [code, setting.level]);
+}
@@ -0,0 +1,205 @@
+import { Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { ExpressionNode, forEachStatement, JobNode, NodeKind, ProgramNode } from "./lang/ast";
+import { DiagnosticCode } from "./lang/diagnosticCodes";
+import { lexText } from "./lang/lexer";
+import { Defaults } from "./lang/normalization";
+import { resolveProgram } from "./lang/resolver";
+import { Token } from "./lang/tokens";
+import { collectClassificationSites } from "./classificationShorthand";
+import { findBlockEnd, matchBlockEnds } from "./foldingRanges";
+import { buildRenameEdit } from "./navigation";
+
+export interface LintContext {
+  document: TextDocument;
+  program: ProgramNode;
+  /** From the `defaults:` line, when the file has one. */
+  defaults: (Defaults & { supplier?: string }) | null;
+}
+
+export interface LintFix {
+  title: string;
+  edits: TextEdit[];
+}
+
+export interface LintProblem {
+  message: string;
+  range: Range;
+  // Built only when a quick fix is requested, since some fixes re-resolve the whole document.
+  fix?: () => LintFix | null;
+}
+
+/**
+ * A convention check over the parsed document. Rules are enabled and given options by `.emergentlint.json`;
+ * `defaultOptions` fills in whatever the configuration leaves out.
+ */
+export interface LintRule<Options = Record<string, unknown>> {
+  code: DiagnosticCode;
+  defaultOptions: Options;
+  check(context: LintContext, options: Options): LintProblem[];
+}
+
+function forEachExpression(expression: ExpressionNode | null | undefined, visit: (expression: ExpressionNode) => void) {
+  if (!expression || (expression.kind as NodeKind) === NodeKind.If) return;
+  visit(expression);
+  switch (expression.kind) {
+    case NodeKind.Unary:
+      forEachExpression(expression.operand, visit);
+      return;
+    case NodeKind.Binary:
+      forEachExpression(expression.left, visit);
+      forEachExpression(expression.right, visit);
+      return;
+    case NodeKind.Qualified:
+      forEachExpression(expression.base, visit);
+      return;
+    case NodeKind.ListLiteral:
+      expression.elements.forEach((element) => forEachExpression(element, visit));
+      return;
+    case NodeKind.Call:
+      forEachExpression(expression.callee, visit);
+      expression.args.forEach((arg) => forEachExpression(arg, visit));
+      return;
+    default:
+      return;
+  }
+}
+
+export type NamingStyle = "snake_case" | "camelCase" | "PascalCase" | "UPPER_CASE";
+
+const NAMING_PATTERNS: Record<NamingStyle, RegExp> = {
+  snake_case: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/,
+  camelCase: /^[a-z][a-zA-Z0-9]*$/,
+  PascalCase: /^[A-Z][a-zA-Z0-9]*$/,
+  UPPER_CASE: /^[A-Z][A-Z0-9]*(_[A-Z0-9]+)*$/,
+};
+
+/** Respells `name` in `style`, keeping any leading underscores. */
+export function convertName(name: string, style: NamingStyle): string {
+  const prefix = /^_*/.exec(name)?.[0] ?? "";
+  const words = name
+    .slice(prefix.length)
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .split("_")
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+  switch (style) {
+    case "snake_case":
+      return prefix + words.join("_");
+    case "UPPER_CASE":
+      return prefix + words.join("_").toUpperCase();
+    case "camelCase":
+      return prefix + words.map((word, index) => (index === 0 ? word : capitalize(word))).join("");
+    case "PascalCase":
+      return prefix + words.map(capitalize).join("");
+  }
+}
+
+export const labelNamingRule: LintRule<{ style: NamingStyle }> = {
+  code: "EC4001",
+  defaultOptions: { style: "snake_case" },
+  check({ document, program }, { style }) {
+    const pattern = NAMING_PATTERNS[style] ?? NAMING_PATTERNS.snake_case;
+    const { references = [] } = resolveProgram(program, { collectReferences: true });
+    return references
+      .filter((reference) => reference.role === "declaration" && reference.binding.kind !== "def" && reference.binding.kind !== "builtin")
+      .filter(({ token }) => token.lexeme.replace(/^_+/, "") !== "" && !pattern.test(token.lexeme.replace(/^_+/, "")))
+      .map(({ token }) => ({
+        message: `Label '${token.lexeme}' is not ${style}`,
+        range: token.range,
+        fix: () => {
+          const renamed = convertName(token.lexeme, style);
+          const result = renamed === token.lexeme ? null : buildRenameEdit(document, token.range.start, renamed);
+          if (!result || !("edit" in result)) return null;
+          return { title: `Rename '${token.lexeme}' to '${renamed}'`, edits: result.edit.changes?.[document.uri] ?? [] };
+        },
+      }));
+  },
+};
+
+export const forbiddenSupplierRule: LintRule<{ suppliers: string[] }> = {
+  code: "EC4002",
+  defaultOptions: { suppliers: [] },
+  check({ program }, { suppliers }) {
+    const forbidden = new Set((Array.isArray(suppliers) ? suppliers : []).map((supplier) => String(supplier).toLowerCase()));
+    const problems: LintProblem[] = [];
+    const report = (token: Token) => {
+      if (forbidden.has(token.lexeme.toLowerCase())) {
+        problems.push({ message: `Supplier '${token.lexeme}' is not allowed in this workspace`, range: token.range });
+      }
+    };
+    forEachStatement(program.statements, (statement) => {
+      if (statement.kind !== NodeKind.Statement) return;
+      if (statement.supplier) report(statement.supplier);
+      for (const expression of [statement.expression, ...(statement.callArgs ?? [])]) {
+        forEachExpression(expression, (node) => node.kind === NodeKind.Qualified && report(node.supplier));
+      }
+    });
+    return problems;
+  },
+};
+
+export const maxJobLengthRule: LintRule<{ max: number }> = {
+  code: "EC4003",
+  defaultOptions: { max: 200 },
+  check({ document, program }, { max }) {
+    const blockEnds = matchBlockEnds(lexText(document.getText()).tokens);
+    const problems: LintProblem[] = [];
+    for (const job of program.statements.filter((statement): statement is JobNode => statement.kind === NodeKind.Job)) {
+      // The job's range stops at its last statement; count through the closing `end`.
+      const length = (findBlockEnd(blockEnds, job.range.start)?.range.end.line ?? job.range.end.line) - job.range.start.line + 1;
+      if (length <= max) continue;
+      problems.push({
+        message: `Job is ${length} lines long; the limit is ${max}`,
+        range: job.classification?.range ?? { start: job.range.start, end: job.range.start },
+      });
+    }
+    return problems;
+  },
+};
+
+export const requireDefaultsRule: LintRule<{ supplier: string }> = {
+  code: "EC4004",
+  defaultOptions: { supplier: "" },
+  check({ program }, { supplier }) {
+    const hasDefaults = program.statements.some(
+      (statement) => statement.kind === NodeKind.Statement && statement.keyword?.lexeme.toLowerCase() === "defaults"
+    );
+    if (hasDefaults) return [];
+    const job = program.statements.find((statement): statement is JobNode => statement.kind === NodeKind.Job);
+    const segments = job?.classification?.lexeme.startsWith("/") ? job.classification.lexeme.split("/").filter(Boolean) : [];
+    const start = { line: 0, character: 0 };
+    return [
+      {
+        message: "File has no 'defaults' line",
+        range: job?.classification?.range ?? { start, end: start },
+        // The layer, variation and platform come from the first job; the supplier has to be configured.
+        fix:
+          segments.length === 5 && supplier
+            ? () => {
+                const line = `defaults: ${segments[0]}, ${segments[3]}, ${segments[4]}, ${supplier}`;
+                return { title: `Add '${line}'`, edits: [TextEdit.insert(start, `${line}\n\n`)] };
+              }
+            : undefined,
+      },
+    ];
+  },
+};
+
+export const preferShorthandRule: LintRule<Record<string, never>> = {
+  code: "EC4005",
+  defaultOptions: {},
+  check({ document, defaults }) {
+    if (!defaults) return [];
+    return collectClassificationSites(document.getText(), defaults)
+      .filter((site) => site.raw.startsWith("/") && site.collapsed !== site.raw)
+      .map((site) => ({
+        message: `Classification '${site.raw}' can be written as '${site.collapsed}'`,
+        range: site.range,
+        fix: () => ({ title: `Collapse classification to '${site.collapsed}'`, edits: [TextEdit.replace(site.range, site.collapsed)] }),
+      }));
+  },
+};
+
+export const LINT_RULES: LintRule<any>[] = [labelNamingRule, forbiddenSupplierRule, maxJobLengthRule, requireDefaultsRule, preferShorthandRule];
@@ -0,0 +1,103 @@
+import { DocumentHighlight, DocumentHighlightKind, Location, Position, Range, TextEdit, WorkspaceEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { parseText } from "./lang/parser";
+import { BindingReference, lookupBinding, resolveProgram } from "./lang/resolver";
+import { KEYWORDS } from "./lang/tokens";
+import { BUILTIN_FUNCTIONS } from "./lang/typeChecker";
+import { rangeContains } from "./ranges";
+
+export type RenameResult = { edit: WorkspaceEdit } | { error: string };
+
+export function collectBindingReferences(document: TextDocument): BindingReference[] {
+  const { program } = parseText(document.getText());
+  return resolveProgram(program, { collectReferences: true }).references ?? [];
+}
+
+export function findReferenceAtPosition(references: BindingReference[], position: Position): BindingReference | undefined {
+  return references.find((reference) => rangeContains(reference.token.range, position));
+}
+
+/**
+ * Resolves the label, def name or parameter under the cursor to the token that declares it:
+ * the job/def header entry, the def name, or the first assignment target in the owning scope.
+ */
+export function findDefinition(document: TextDocument, position: Position): Location | null {
+  const reference = findReferenceAtPosition(collectBindingReferences(document), position);
+  if (!reference) return null;
+  return Location.create(document.uri, reference.binding.name.range);
+}
+
+function referencesToSameBinding(references: BindingReference[], position: Position): BindingReference[] {
+  const target = findReferenceAtPosition(references, position);
+  if (!target) return [];
+  return references.filter((reference) => reference.binding === target.binding);
+}
+
+/**
+ * Finds every occurrence of the binding under the cursor. Matching is by resolved binding rather than
+ * by name, so a label shadowed by a nested def or if branch is kept apart from the outer one.
+ */
+export function findReferences(document: TextDocument, position: Position, includeDeclaration = true): Location[] {
+  return referencesToSameBinding(collectBindingReferences(document), position)
+    .filter((reference) => includeDeclaration || reference.token !== reference.binding.name)
+    .map((reference) => Location.create(document.uri, reference.token.range));
+}
+
+function highlightKind(reference: BindingReference): DocumentHighlightKind {
+  if (reference.role === "read") return DocumentHighlightKind.Read;
+  if (reference.role === "write") return DocumentHighlightKind.Write;
+  // Header declarations name the binding; body declarations are the first assignment target.
+  return reference.binding.origin === "header" ? DocumentHighlightKind.Text : DocumentHighlightKind.Write;
+}
+
+export function buildDocumentHighlights(document: TextDocument, position: Position): DocumentHighlight[] {
+  return referencesToSameBinding(collectBindingReferences(document), position).map((reference) =>
+    DocumentHighlight.create(reference.token.range, highlightKind(reference))
+  );
+}
+
+export function prepareRename(document: TextDocument, position: Position): { range: Range; placeholder: string } | null {
+  const reference = findReferenceAtPosition(collectBindingReferences(document), position);
+  if (!reference) return null;
+  return { range: reference.token.range, placeholder: reference.token.lexeme };
+}
+
+function validateNewName(newName: string): string | undefined {
+  if (newName === "$") {
+    return "Cannot rename to '$': it is reserved for the current scope.";
+  }
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(newName) || newName === "_") {
+    return `'${newName}' is not a valid label name.`;
+  }
+  if (Object.prototype.hasOwnProperty.call(BUILTIN_FUNCTIONS, newName.toLowerCase())) {
+    return `Cannot rename to '${newName}': it is a builtin function.`;
+  }
+  if ((KEYWORDS as Set<string>).has(newName.toLowerCase())) {
+    return `Cannot rename to '${newName}': it is a keyword.`;
+  }
+  return undefined;
+}
+
+/**
+ * Renames every occurrence of the binding under the cursor. The rename is refused when the new name is
+ * reserved, or when any occurrence would start resolving to a different binding already in scope.
+ */
+export function buildRenameEdit(document: TextDocument, position: Position, newName: string): RenameResult | null {
+  const related = referencesToSameBinding(collectBindingReferences(document), position);
+  if (related.length === 0) return null;
+
+  const invalid = validateNewName(newName);
+  if (invalid) return { error: invalid };
+
+  const target = related[0].binding;
+  for (const reference of related) {
+    const existing = lookupBinding(reference.scope, newName);
+    if (existing && existing !== target) {
+      const line = existing.name.range.start.line + 1;
+      return { error: `Cannot rename to '${newName}': it would collide with the existing '${newName}' declared on line ${line}.` };
+    }
+  }
+
+  const edits = related.map((reference) => TextEdit.replace(reference.token.range, newName));
+  return { edit: { changes: { [document.uri]: edits } } };
+}
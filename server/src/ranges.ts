@@ -0,0 +1,24 @@
+import { Position, Range } from "vscode-languageserver";
+
+export function comparePositions(a: Position, b: Position): number {
+  return a.line - b.line || a.character - b.character;
+}
+
+/** Whether `position` lies in `range`, either end included. */
+export function rangeContains(range: Range, position: Position): boolean {
+  return comparePositions(range.start, position) <= 0 && comparePositions(position, range.end) <= 0;
+}
+
+/** Whether `inner` lies within `outer`, either end included. */
+export function contains(outer: Range, inner: Range): boolean {
+  return comparePositions(outer.start, inner.start) <= 0 && comparePositions(inner.end, outer.end) <= 0;
+}
+
+/**
+ * Whether the ranges overlap by more than a shared end point. With `touching`, ranges that only meet
+ * at an end point count too, so a cursor at either edge of a token selects it.
+ */
+export function intersects(a: Range, b: Range, { touching = false }: { touching?: boolean } = {}): boolean {
+  const limit = touching ? 0 : -1;
+  return comparePositions(a.start, b.end) <= limit && comparePositions(b.start, a.end) <= limit;
+}
@@ -0,0 +1,152 @@
+import { Position, Range, SelectionRange } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { BlockNode, braceBlocks, DefNode, ExpressionNode, ifNodeOf, JobNode, NodeKind, Statement, StatementNode } from "./lang/ast";
+import { lexText } from "./lang/lexer";
+import { parseText } from "./lang/parser";
+import { Token } from "./lang/tokens";
+import { findBlockEnd, matchBlockEnds } from "./foldingRanges";
+import { comparePositions, contains, rangeContains } from "./ranges";
+
+function spanOf(items: Array<{ range: Range }>): Range | undefined {
+  if (items.length === 0) return undefined;
+  return { start: items[0].range.start, end: items[items.length - 1].range.end };
+}
+
+type SelectionContext = { position: Position; blockEnds: Map<string, Token>; ranges: Range[] };
+
+function addRange(ctx: SelectionContext, range: Range | undefined): boolean {
+  if (!range || !rangeContains(range, ctx.position)) return false;
+  ctx.ranges.push(range);
+  return true;
+}
+
+function addTokens(ctx: SelectionContext, tokens: Array<Token | undefined>) {
+  for (const token of tokens) {
+    addRange(ctx, token?.range);
+  }
+}
+
+function visitStatements(ctx: SelectionContext, statements: Statement[]) {
+  for (const statement of statements) {
+    visitStatement(ctx, statement);
+  }
+}
+
+// Job, def and if ranges stop at their last statement; the whole construct runs to its closing `end`.
+function statementExtent(ctx: SelectionContext, statement: Statement): Range {
+  const isBlockOpener = statement.kind === NodeKind.Job || statement.kind === NodeKind.Def || !!ifNodeOf(statement);
+  const endToken = isBlockOpener ? findBlockEnd(ctx.blockEnds, statement.range.start) : undefined;
+  if (!endToken || comparePositions(endToken.range.end, statement.range.end) <= 0) return statement.range;
+  return { start: statement.range.start, end: endToken.range.end };
+}
+
+function visitBlock(ctx: SelectionContext, block: BlockNode | undefined) {
+  if (!block) return;
+  // A block's own range can stop short of a nested construct's closing `end`.
+  let extent = block.range;
+  for (const statement of block.statements) {
+    const statementRange = statementExtent(ctx, statement);
+    if (comparePositions(statementRange.end, extent.end) > 0) {
+      extent = { start: extent.start, end: statementRange.end };
+    }
+  }
+  if (addRange(ctx, extent)) {
+    visitStatements(ctx, block.statements);
+  }
+}
+
+function visitDeclaration(ctx: SelectionContext, node: JobNode | DefNode) {
+  if (!addRange(ctx, statementExtent(ctx, node))) return;
+  addTokens(ctx, [node.kind === NodeKind.Job ? (node as JobNode).classification : (node as DefNode).name]);
+  addRange(ctx, spanOf(node.params));
+  addTokens(ctx, node.params);
+  addRange(ctx, spanOf(node.targets));
+  addTokens(ctx, node.targets);
+  visitBlock(ctx, node.body);
+}
+
+function visitStatement(ctx: SelectionContext, statement: Statement) {
+  if (statement.kind === NodeKind.Job || statement.kind === NodeKind.Def) {
+    visitDeclaration(ctx, statement as JobNode | DefNode);
+    return;
+  }
+  const node = statement as StatementNode;
+  if (!addRange(ctx, statementExtent(ctx, node))) return;
+  const ifNode = ifNodeOf(node);
+  if (ifNode) {
+    visitExpression(ctx, ifNode.condition);
+    visitBlock(ctx, ifNode.thenBlock);
+    visitBlock(ctx, ifNode.elseBlock);
+  } else {
+    visitExpression(ctx, node.expression);
+  }
+  addTokens(ctx, [node.keyword, node.classification, node.supplier]);
+  if (node.callArgs && addRange(ctx, spanOf(node.callArgs))) {
+    for (const arg of node.callArgs) {
+      visitExpression(ctx, arg);
+    }
+  }
+  addRange(ctx, spanOf(node.targets));
+  addTokens(ctx, node.targets);
+  for (const block of braceBlocks(node)) {
+    visitBlock(ctx, block);
+  }
+}
+
+function visitExpression(ctx: SelectionContext, expr: ExpressionNode | null | undefined) {
+  if (!expr || !addRange(ctx, expr.range)) return;
+  switch (expr.kind) {
+    case NodeKind.Binary:
+      visitExpression(ctx, expr.left);
+      visitExpression(ctx, expr.right);
+      break;
+    case NodeKind.Unary:
+      visitExpression(ctx, expr.operand);
+      break;
+    case NodeKind.Qualified:
+      visitExpression(ctx, expr.base);
+      addTokens(ctx, [expr.supplier]);
+      break;
+    case NodeKind.ListLiteral:
+      for (const element of expr.elements) {
+        visitExpression(ctx, element);
+      }
+      break;
+    case NodeKind.Call:
+      visitExpression(ctx, expr.callee);
+      if (addRange(ctx, spanOf(expr.args))) {
+        for (const arg of expr.args) {
+          visitExpression(ctx, arg);
+        }
+      }
+      break;
+    default:
+      break;
+  }
+}
+
+function buildSelectionRange(ranges: Range[]): SelectionRange | undefined {
+  // Nested ranges that all contain the cursor sort outermost first by start, then by reversed end.
+  const sorted = [...ranges].sort((a, b) => comparePositions(a.start, b.start) || comparePositions(b.end, a.end));
+  let current: SelectionRange | undefined;
+  for (const range of sorted) {
+    if (current && (!contains(current.range, range) || contains(range, current.range))) continue;
+    current = SelectionRange.create(range, current);
+  }
+  return current;
+}
+
+/**
+ * Expand Selection steps for each position, innermost first: token, argument list, statement, brace
+ * block, if branch, def/job body, and finally the whole job through its closing `end`.
+ */
+export function buildSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[] {
+  const text = document.getText();
+  const { program } = parseText(text);
+  const blockEnds = matchBlockEnds(lexText(text).tokens);
+  return positions.map((position) => {
+    const ctx: SelectionContext = { position, blockEnds, ranges: [] };
+    visitStatements(ctx, program.statements);
+    return buildSelectionRange(ctx.ranges) ?? SelectionRange.create({ start: position, end: position });
+  });
+}
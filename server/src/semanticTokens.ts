@@ -0,0 +1,153 @@
+import { SemanticTokens, SemanticTokensBuilder, SemanticTokensDelta, SemanticTokensLegend } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { lexText } from "./lang/lexer";
+import { parseText } from "./lang/parser";
+import { BindingReference, resolveProgram } from "./lang/resolver";
+import { Token, TokenKind } from "./lang/tokens";
+import { BUILTIN_FUNCTIONS, TypeKind, typeCheckProgram } from "./lang/typeChecker";
+import { getDefaultsFromText } from "./completionSupport";
+
+// Custom types and modifiers are declared in package.json (`semanticTokenTypes`/`semanticTokenModifiers`)
+// so themes can target them; the order here is the wire encoding and must not change casually.
+export const SEMANTIC_TOKEN_TYPES = [
+  "parameter",
+  "obligation",
+  "label",
+  "function",
+  "builtin",
+  "contractClassification",
+  "protocolClassification",
+  "supplier",
+] as const;
+export const SEMANTIC_TOKEN_MODIFIERS = ["declaration", "site", "abstraction"] as const;
+
+export type SemanticTokenType = (typeof SEMANTIC_TOKEN_TYPES)[number];
+export type SemanticTokenModifier = (typeof SEMANTIC_TOKEN_MODIFIERS)[number];
+
+export const SEMANTIC_TOKEN_LEGEND: SemanticTokensLegend = {
+  tokenTypes: [...SEMANTIC_TOKEN_TYPES],
+  tokenModifiers: [...SEMANTIC_TOKEN_MODIFIERS],
+};
+
+export type SemanticTokenEntry = {
+  line: number;
+  character: number;
+  length: number;
+  tokenType: SemanticTokenType;
+  tokenModifiers: SemanticTokenModifier[];
+};
+
+function positionKey(token: Token): string {
+  return `${token.range.start.line}:${token.range.start.character}`;
+}
+
+function rangeKey(token: Token): string {
+  return `${positionKey(token)}-${token.range.end.line}:${token.range.end.character}`;
+}
+
+function bindingTokenType(reference: BindingReference): SemanticTokenType {
+  switch (reference.binding.kind) {
+    case "param":
+      return "parameter";
+    case "def":
+      return "function";
+    case "target":
+      return reference.binding.origin === "header" ? "obligation" : "label";
+    default:
+      return "label";
+  }
+}
+
+function collectTypeModifiers(document: TextDocument, program: ReturnType<typeof parseText>["program"]) {
+  const defaults = getDefaultsFromText(document.getText()) || { layer: "", variation: "", platform: "" };
+  const { types } = typeCheckProgram(program, { collectTypes: true, defaults });
+  const modifiers = new Map<string, SemanticTokenModifier[]>();
+  for (const entry of types ?? []) {
+    const found: SemanticTokenModifier[] = [];
+    if (entry.types.some((type) => type.kind === TypeKind.Site)) found.push("site");
+    if (entry.types.some((type) => type.kind === TypeKind.Classification)) found.push("abstraction");
+    if (found.length === 0) continue;
+    const { start, end } = entry.range;
+    modifiers.set(`${start.line}:${start.character}-${end.line}:${end.character}`, found);
+  }
+  return modifiers;
+}
+
+/**
+ * Classifies the tokens the TextMate grammar cannot tell apart: labels by the binding they resolve to,
+ * builtin calls, contract vs protocol classifications, suppliers, and labels typed as a site or an
+ * abstraction classification.
+ */
+export function collectSemanticTokens(document: TextDocument): SemanticTokenEntry[] {
+  const text = document.getText();
+  const { tokens } = lexText(text);
+  const { program } = parseText(text);
+  const references = new Map<string, BindingReference>();
+  for (const reference of resolveProgram(program, { collectReferences: true }).references ?? []) {
+    references.set(positionKey(reference.token), reference);
+  }
+  const typeModifiers = collectTypeModifiers(document, program);
+
+  const entries: SemanticTokenEntry[] = [];
+  const push = (token: Token, tokenType: SemanticTokenType, tokenModifiers: SemanticTokenModifier[] = []) => {
+    const { start, end } = token.range;
+    // Semantic tokens are single-line; the lexer never produces multi-line identifiers or classifications.
+    if (start.line !== end.line || end.character <= start.character) return;
+    entries.push({ line: start.line, character: start.character, length: end.character - start.character, tokenType, tokenModifiers });
+  };
+
+  let previous: Token | undefined;
+  for (const token of tokens) {
+    if (token.kind === TokenKind.Identifier) {
+      const reference = references.get(positionKey(token));
+      if (reference) {
+        const modifiers: SemanticTokenModifier[] = reference.role === "declaration" ? ["declaration"] : [];
+        modifiers.push(...(typeModifiers.get(rangeKey(token)) ?? []));
+        push(token, bindingTokenType(reference), modifiers);
+      }
+    } else if (token.kind === TokenKind.Keyword && Object.prototype.hasOwnProperty.call(BUILTIN_FUNCTIONS, token.lexeme.toLowerCase())) {
+      push(token, "builtin");
+    } else if (token.kind === TokenKind.Classification && previous?.kind === TokenKind.Keyword) {
+      const keyword = previous.lexeme.toLowerCase();
+      push(token, keyword === "host" || keyword === "join" ? "protocolClassification" : "contractClassification");
+    } else if (token.kind === TokenKind.Supplier) {
+      push(token, "supplier");
+    }
+    if (token.kind !== TokenKind.Newline) {
+      previous = token;
+    }
+  }
+  return entries;
+}
+
+export function encodeSemanticTokens(builder: SemanticTokensBuilder, entries: SemanticTokenEntry[]): void {
+  for (const entry of entries) {
+    const tokenType = SEMANTIC_TOKEN_TYPES.indexOf(entry.tokenType);
+    const modifierBits = entry.tokenModifiers.reduce((bits, modifier) => bits | (1 << SEMANTIC_TOKEN_MODIFIERS.indexOf(modifier)), 0);
+    builder.push(entry.line, entry.character, entry.length, tokenType, modifierBits);
+  }
+}
+
+/**
+ * A full request starts a fresh builder, since reusing one would append to the data it last sent; the
+ * builder is kept so the next delta request can diff against that result.
+ */
+export function buildFullSemanticTokens(builders: Map<string, SemanticTokensBuilder>, document: TextDocument): SemanticTokens {
+  const builder = new SemanticTokensBuilder();
+  builders.set(document.uri, builder);
+  encodeSemanticTokens(builder, collectSemanticTokens(document));
+  return builder.build();
+}
+
+/** Falls back to a full result when `previousResultId` is not the last result sent for the document. */
+export function buildSemanticTokensDelta(
+  builders: Map<string, SemanticTokensBuilder>,
+  document: TextDocument,
+  previousResultId: string
+): SemanticTokens | SemanticTokensDelta {
+  const builder = builders.get(document.uri);
+  if (!builder) return buildFullSemanticTokens(builders, document);
+  builder.previousResult(previousResultId);
+  encodeSemanticTokens(builder, collectSemanticTokens(document));
+  return builder.buildEdits();
+}
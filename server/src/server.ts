@@ -14,8 +14,14 @@ import {
 	MarkupKind,
 	TextDocumentPositionParams,
 	RequestType,
+	ResponseError,
+	ErrorCodes,
 	TextDocumentSyncKind,
-	InitializeResult
+	InitializeResult,
+	FileChangeType,
+	SemanticTokensBuilder,
+	CodeAction,
+	CodeActionKind
 } from 'vscode-languageserver/node';
 import { performance } from 'perf_hooks';
 import * as fs from 'fs';
@@ -36,7 +42,7 @@ import {
 	shouldTriggerSupplierCompletion
 } from './completionSupport';
 import { gatewayClient, RemoteContractSpec } from './gatewayClient';
-import { collectDiagnostics } from './diagnostics';
+import { collectDiagnostics, DiagnosticSettings, SeverityOverride } from './diagnostics';
 import { getTypeHoverMarkdown, shouldSuppressTypeHoverAtPosition } from './typeHover';
 import { parseText } from './lang/parser';
 import { ProgramNode, Statement } from './lang/ast';
@@ -45,6 +51,35 @@ import { analyseComponentManagerExpression, ComponentManagerExpressionAnalysis }
 import { collectReferencedClassifications } from './specReferenceCollector';
 import { formatDocument, formatDocumentRange } from './formatting';
 import { normalizeRangeToTouchedLines } from './formattingRange';
+import { buildDocumentSymbols } from './documentSymbols';
+import { buildFoldingRanges } from './foldingRanges';
+import { buildSelectionRanges } from './selectionRanges';
+import { buildInlayHints, InlayHint, InlayHintParams } from './inlayHints';
+import { buildCountMismatchFixes } from './countMismatchFixes';
+import { buildUndefinedNameFixes } from './undefinedNameFixes';
+import { buildSuppressionFixes } from './suppressionFixes';
+import { buildLintFixes, LINT_CONFIG_FILENAME, LintConfig, parseLintConfig } from './lint';
+import { buildExtractContractAction } from './extractContract';
+import { buildExtractDefAction } from './extractDef';
+import { buildInlineDefAction } from './inlineDef';
+import {
+	buildClassificationShorthandActions,
+	buildOptimizeDefaultsAction,
+	COLLAPSE_CLASSIFICATIONS_KIND,
+	EXPAND_CLASSIFICATIONS_KIND,
+	OPTIMIZE_DEFAULTS_KIND
+} from './classificationShorthand';
+import { buildBuiltinSignatureHelp, buildCollaborationSignatureHelp, findSignatureCall } from './signatureHelp';
+import { buildDocumentHighlights, buildRenameEdit, findDefinition, findReferences, prepareRename } from './navigation';
+import { WorkspaceSymbolIndex } from './workspaceSymbols';
+import {
+	buildIncomingCalls,
+	buildOutgoingCalls,
+	CallHierarchyIndex,
+	collectContractJobs,
+	prepareCallHierarchy
+} from './callHierarchy';
+import { buildFullSemanticTokens, buildSemanticTokensDelta, SEMANTIC_TOKEN_LEGEND } from './semanticTokens';
 import {
 	DEFAULT_STUDIO_CONNECTION,
 	StudioConnectionConfig,
@@ -118,6 +153,10 @@ type TraceLevel = 'off' | 'messages' | 'verbose';
 const validationDebounceMs = 200;
 const pendingValidation: Map<string, NodeJS.Timeout> = new Map();
 const documentSpecContexts: Map<string, DocumentSpecContext> = new Map();
+// Lint configuration per directory; a directory without its own file shares its parent's entry.
+const lintConfigs: Map<string, Promise<LintConfig | undefined>> = new Map();
+// One builder per open document so delta requests can diff against the previous result.
+const semanticTokenBuilders: Map<string, SemanticTokensBuilder> = new Map();
 
 function logTrace(level: TraceLevel | undefined, message: string, data?: Record<string, string | number | boolean | null>) {
 	if (!level || level === 'off') {
@@ -137,6 +176,16 @@ const BULK_VALIDATION_PER_FILE_MAX_DEFAULT = 100;
 const BULK_VALIDATION_IGNORED_DIRS = new Set(['.git', 'node_modules', '.vscode-test', '.ops']);
 const BULK_VALIDATION_PROGRESS_FILE_STEP = 25;
 
+const workspaceSymbolIndex = new WorkspaceSymbolIndex();
+// Built from the same files as the workspace symbol index and kept in step with it.
+const callHierarchyIndex = new CallHierarchyIndex();
+let workspaceSymbolIndexReady: Promise<void> | null = null;
+// Bumped on invalidation so a build that was superseded mid-scan drops what it found.
+let workspaceSymbolIndexGeneration = 0;
+// Sent by the client, which resolves `emergent.bulkValidationFolders` the same way for bulk scans.
+let workspaceSymbolFolderUris: string[] | null = null;
+let workspaceSymbolScope: { folderPaths: string[]; extensions: Set<string> } = { folderPaths: [], extensions: new Set() };
+
 function normalizeExtension(value: string, fallback: string): string {
 	const trimmed = (value || fallback).trim().toLowerCase();
 	if (!trimmed) return fallback;
@@ -265,6 +314,7 @@ async function runBulkValidationScan(params: BulkValidationScanParams): Promise<
 			continue;
 		}
 		const { files, truncated: fileTruncated } = await collectMatchingFiles(folderPath, extensions, maxFiles, scannedCounter, matchedCounter);
+		const severityOverrides = (await getDocumentSettings(folderUri)).diagnostics?.severityOverrides;
 		if (fileTruncated) {
 			truncated = true;
 		}
@@ -278,7 +328,11 @@ async function runBulkValidationScan(params: BulkValidationScanParams): Promise<
 			matchedFiles += 1;
 			const uri = pathToFileURL(filePath).toString();
 			const doc = TextDocument.create(uri, 'emergent', 1, text);
-			const diagnostics = await collectSpecAwareDiagnosticsForDocument(doc, perFileMaxProblems);
+			const diagnostics = await collectSpecAwareDiagnosticsForDocument(doc, {
+				maxNumberOfProblems: perFileMaxProblems,
+				severityOverrides,
+				lint: await getLintConfig(uri),
+			});
 			if (diagnostics.length === 0) {
 				maybeEmitProgress();
 				continue;
@@ -317,6 +371,117 @@ async function runBulkValidationScan(params: BulkValidationScanParams): Promise<
 	};
 }
 
+async function getWorkspaceSettings(): Promise<EmergentSettings> {
+	if (!hasConfigurationCapability) {
+		return globalSettings;
+	}
+	return connection.workspace.getConfiguration({ section: 'emergent' });
+}
+
+// Until the client has sent its folder selection, every workspace folder is indexed.
+async function resolveWorkspaceSymbolFolders(): Promise<string[]> {
+	let folderUris = workspaceSymbolFolderUris;
+	if (!folderUris) {
+		if (!hasWorkspaceFolderCapability) {
+			return [];
+		}
+		folderUris = ((await connection.workspace.getWorkspaceFolders()) ?? []).map((folder) => folder.uri);
+	}
+	return folderUris
+		.map((folderUri) => toFsPathFromUri(folderUri))
+		.filter((folderPath): folderPath is string => Boolean(folderPath));
+}
+
+function isWorkspaceSymbolFile(uri: string): boolean {
+	const filePath = toFsPathFromUri(uri);
+	if (!filePath || !workspaceSymbolScope.extensions.has(path.extname(filePath).toLowerCase())) {
+		return false;
+	}
+	return workspaceSymbolScope.folderPaths.some((folderPath) => {
+		const relative = path.relative(folderPath, filePath);
+		return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+			&& !relative.split(path.sep).some((segment) => BULK_VALIDATION_IGNORED_DIRS.has(segment));
+	});
+}
+
+function updateWorkspaceIndexes(uri: string, text: string) {
+	workspaceSymbolIndex.update(uri, text);
+	callHierarchyIndex.update(uri, text);
+}
+
+function removeFromWorkspaceIndexes(uri: string) {
+	workspaceSymbolIndex.remove(uri);
+	callHierarchyIndex.remove(uri);
+}
+
+async function indexWorkspaceSymbolFile(uri: string, superseded: () => boolean = () => false): Promise<void> {
+	const open = documents.get(uri);
+	if (open) {
+		updateWorkspaceIndexes(uri, open.getText());
+		return;
+	}
+	const filePath = toFsPathFromUri(uri);
+	if (!filePath) {
+		removeFromWorkspaceIndexes(uri);
+		return;
+	}
+	let text: string;
+	try {
+		text = await fs.promises.readFile(filePath, 'utf8');
+	} catch {
+		removeFromWorkspaceIndexes(uri);
+		return;
+	}
+	if (!superseded()) {
+		updateWorkspaceIndexes(uri, text);
+	}
+}
+
+async function buildWorkspaceSymbolIndex(): Promise<void> {
+	const generation = workspaceSymbolIndexGeneration;
+	const superseded = () => generation !== workspaceSymbolIndexGeneration;
+	const settings = await getWorkspaceSettings();
+	const extensions = getBulkValidationExtensions('both', settings.autopilotExtension ?? '.dla', settings.pilotExtension ?? '.dlp');
+	const folderPaths = await resolveWorkspaceSymbolFolders();
+	if (superseded()) {
+		return;
+	}
+	workspaceSymbolScope = { folderPaths, extensions };
+	workspaceSymbolIndex.clear();
+	callHierarchyIndex.clear();
+	const scannedCounter = { count: 0 };
+	const matchedCounter = { count: 0 };
+	for (const folderPath of folderPaths) {
+		const { files } = await collectMatchingFiles(folderPath, extensions, BULK_VALIDATION_MAX_FILES_DEFAULT, scannedCounter, matchedCounter);
+		for (const filePath of files) {
+			// A newer build owns the indexes now; anything added from here on would be stale.
+			if (superseded()) {
+				return;
+			}
+			await indexWorkspaceSymbolFile(pathToFileURL(filePath).toString(), superseded);
+		}
+	}
+}
+
+function ensureWorkspaceSymbolIndex(): Promise<void> {
+	if (!workspaceSymbolIndexReady) {
+		const generation = workspaceSymbolIndexGeneration;
+		workspaceSymbolIndexReady = buildWorkspaceSymbolIndex().catch((err: any) => {
+			connection.console.error(`Workspace symbol indexing failed: ${err?.message ?? err}`);
+			if (generation === workspaceSymbolIndexGeneration) {
+				workspaceSymbolIndexReady = null;
+			}
+		});
+	}
+	return workspaceSymbolIndexReady;
+}
+
+function invalidateWorkspaceSymbolIndex() {
+	workspaceSymbolIndexGeneration++;
+	workspaceSymbolIndexReady = null;
+	workspaceSymbolIndex.clear();
+	callHierarchyIndex.clear();
+}
 
 connection.onInitialize((params: InitializeParams) => {
 	const capabilities = params.capabilities;
@@ -347,6 +512,34 @@ connection.onInitialize((params: InitializeParams) => {
 				resolveProvider: true
 			},
 			hoverProvider: true,
+			signatureHelpProvider: {
+				triggerCharacters: ['(', ','],
+				retriggerCharacters: [')']
+			},
+			definitionProvider: true,
+			referencesProvider: true,
+			documentHighlightProvider: true,
+			renameProvider: { prepareProvider: true },
+			documentSymbolProvider: true,
+			workspaceSymbolProvider: true,
+			foldingRangeProvider: true,
+			callHierarchyProvider: true,
+			codeActionProvider: {
+				codeActionKinds: [
+					CodeActionKind.QuickFix,
+					CodeActionKind.RefactorExtract,
+					CodeActionKind.RefactorInline,
+					CodeActionKind.RefactorRewrite,
+					EXPAND_CLASSIFICATIONS_KIND,
+					COLLAPSE_CLASSIFICATIONS_KIND,
+					OPTIMIZE_DEFAULTS_KIND
+				]
+			},
+			selectionRangeProvider: true,
+			semanticTokensProvider: {
+				legend: SEMANTIC_TOKEN_LEGEND,
+				full: { delta: true }
+			},
 			documentFormattingProvider: true,
 			documentRangeFormattingProvider: true
 		}
@@ -384,6 +577,7 @@ connection.onInitialized(() => {
 	if (hasWorkspaceFolderCapability) {
 		connection.workspace.onDidChangeWorkspaceFolders(_event => {
 			connection.console.log('Workspace folder change event received.');
+			invalidateWorkspaceSymbolIndex();
 		});
 	}
 });
@@ -395,7 +589,11 @@ interface EmergentSettings {
 	studioNetwork: string;
 	hoverDisabled?: boolean;
 	hover?: { disabled?: boolean };
+	inlayHints?: { requirementNames?: boolean; targetTypes?: boolean; parameterTypes?: boolean };
+	diagnostics?: { severityOverrides?: Record<string, SeverityOverride> };
 	traceServer?: TraceLevel;
+	autopilotExtension?: string;
+	pilotExtension?: string;
 	specCache?: {
 		softTtlHours?: number;
 		fetchConcurrency?: number;
@@ -437,6 +635,7 @@ const documentSettings: Map<string, Thenable<EmergentSettings>> = new Map();
 
 connection.onDidChangeConfiguration(change => {
 	invalidateAllDocumentSpecContexts();
+	invalidateWorkspaceSymbolIndex();
 	if (hasConfigurationCapability) {
 		// Reset all cached document settings
 		documentSettings.clear();
@@ -489,6 +688,34 @@ function getDocumentSettings(resource: string): Thenable<EmergentSettings> {
 	return result;
 }
 
+function loadLintConfig(directory: string): Promise<LintConfig | undefined> {
+	let result = lintConfigs.get(directory);
+	if (!result) {
+		const configPath = path.join(directory, LINT_CONFIG_FILENAME);
+		result = fs.promises.readFile(configPath, 'utf8').then(
+			(text) => {
+				const { config, problems } = parseLintConfig(text);
+				for (const problem of problems) {
+					connection.console.warn(`${configPath}: ${problem}`);
+				}
+				return config;
+			},
+			() => {
+				const parent = path.dirname(directory);
+				return parent === directory ? undefined : loadLintConfig(parent);
+			}
+		);
+		lintConfigs.set(directory, result);
+	}
+	return result;
+}
+
+// The nearest `.emergentlint.json` in the document's directory or any directory above it.
+function getLintConfig(uri: string): Promise<LintConfig | undefined> {
+	const filePath = toFsPathFromUri(uri);
+	return filePath ? loadLintConfig(path.dirname(filePath)) : Promise.resolve(undefined);
+}
+
 function clearScheduledValidation(uri: string) {
 	const handle = pendingValidation.get(uri);
 	if (handle) {
@@ -571,13 +798,13 @@ async function getOrBuildDocumentSpecContext(textDocument: TextDocument): Promis
 
 async function collectSpecAwareDiagnosticsForDocument(
 	textDocument: TextDocument,
-	maxNumberOfProblems: number
+	settings: DiagnosticSettings
 ): Promise<Diagnostic[]> {
 	const context = await getOrBuildDocumentSpecContext(textDocument);
 
 	return collectDiagnostics(
 		textDocument,
-		{ maxNumberOfProblems },
+		settings,
 		context.specs,
 		context.defaults,
 		context.specLookupIssues
@@ -599,10 +826,11 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
 	});
 	const traceLevel = settings.traceServer ?? 'off';
 	const started = performance.now();
-	const diagnostics = await collectSpecAwareDiagnosticsForDocument(
-		textDocument,
-		settings.maxNumberOfProblems ?? defaultSettings.maxNumberOfProblems
-	);
+	const diagnostics = await collectSpecAwareDiagnosticsForDocument(textDocument, {
+		maxNumberOfProblems: settings.maxNumberOfProblems ?? defaultSettings.maxNumberOfProblems,
+		severityOverrides: settings.diagnostics?.severityOverrides,
+		lint: await getLintConfig(textDocument.uri),
+	});
 
 	connection.sendDiagnostics({ uri: textDocument.uri, diagnostics });
 	traceDuration(traceLevel, 'diagnostics', started, { uri: textDocument.uri });
@@ -622,7 +850,12 @@ documents.onDidClose(e => {
 	documentSettings.delete(e.document.uri);
 	invalidateDocumentSpecContext(e.document.uri);
 	clearScheduledValidation(e.document.uri);
+	semanticTokenBuilders.delete(e.document.uri);
 	connection.sendDiagnostics({ uri: e.document.uri, diagnostics: [] });
+	if (workspaceSymbolIndexReady && isWorkspaceSymbolFile(e.document.uri)) {
+		// Unsaved edits are discarded on close, so fall back to the file on disk.
+		void indexWorkspaceSymbolFile(e.document.uri);
+	}
 });
 
 // Rebuild (validate) on open/change with a deterministic debounce.
@@ -633,11 +866,34 @@ documents.onDidOpen(event => {
 documents.onDidChangeContent(change => {
 	invalidateDocumentSpecContext(change.document.uri);
 	scheduleValidation(change.document);
+	if (workspaceSymbolIndexReady && isWorkspaceSymbolFile(change.document.uri)) {
+		updateWorkspaceIndexes(change.document.uri, change.document.getText());
+	}
+});
+
+connection.onDidChangeWatchedFiles(change => {
+	if (change.changes.some((event) => path.basename(toFsPathFromUri(event.uri) ?? '') === LINT_CONFIG_FILENAME)) {
+		lintConfigs.clear();
+		documents.all().forEach(scheduleValidation);
+	}
+	if (!workspaceSymbolIndexReady) {
+		return;
+	}
+	for (const event of change.changes) {
+		if (!isWorkspaceSymbolFile(event.uri)) {
+			continue;
+		}
+		if (event.type === FileChangeType.Deleted) {
+			removeFromWorkspaceIndexes(event.uri);
+		} else {
+			void indexWorkspaceSymbolFile(event.uri);
+		}
+	}
 });
 
-connection.onDidChangeWatchedFiles(_change => {
-	// Monitored files have change in VSCode
-	connection.console.log('We received an file change event');
+connection.onNotification('emergent/workspaceSymbolFolders', (params: { folderUris?: string[] }) => {
+	workspaceSymbolFolderUris = Array.isArray(params?.folderUris) ? params.folderUris : null;
+	invalidateWorkspaceSymbolIndex();
 });
 
 const fetchSpecificationRequest = new RequestType<FetchSpecificationParams, FetchSpecificationResult, void>('emergent/fetchSpecification');
@@ -646,6 +902,8 @@ const getSpecCachePathRequest = new RequestType<null, string, void>('emergent/ge
 const reloadSpecCacheRequest = new RequestType<null, boolean, void>('emergent/reloadSpecCache');
 const findWorkspaceDiagnosticsRequest = new RequestType<BulkValidationScanParams, BulkValidationScanResult, void>('emergent/findWorkspaceDiagnostics');
 const validateDocumentRequest = new RequestType<{ uri: string; clearOthers?: boolean }, boolean, void>('emergent/validateDocument');
+// Answered under the LSP 3.17 method name; the client requests it directly and renders the hints itself.
+const inlayHintRequest = new RequestType<InlayHintParams, InlayHint[], void>('textDocument/inlayHint');
 const componentManagerAnalysisRequest = new RequestType<{ text: string }, ComponentManagerExpressionAnalysis, void>(
 	'emergent/componentManager/analyseExpression'
 );
@@ -1071,6 +1329,212 @@ connection.onCompletion(
 
 connection.onCompletionResolve((item): CompletionItem => item);
 
+connection.onDefinition((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	return findDefinition(document, params.position);
+});
+
+connection.onReferences((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	return findReferences(document, params.position, params.context.includeDeclaration);
+});
+
+connection.onDocumentHighlight((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	return buildDocumentHighlights(document, params.position);
+});
+
+connection.onDocumentSymbol((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	return buildDocumentSymbols(document);
+});
+
+connection.onWorkspaceSymbol(async (params) => {
+	await ensureWorkspaceSymbolIndex();
+	return workspaceSymbolIndex.query(params.query);
+});
+
+connection.languages.callHierarchy.onPrepare(async (params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	await ensureWorkspaceSymbolIndex();
+	return prepareCallHierarchy(document, params.position, callHierarchyIndex.jobs());
+});
+
+connection.languages.callHierarchy.onIncomingCalls(async (params) => {
+	await ensureWorkspaceSymbolIndex();
+	return buildIncomingCalls(params.item, callHierarchyIndex.jobs());
+});
+
+connection.languages.callHierarchy.onOutgoingCalls(async (params) => {
+	await ensureWorkspaceSymbolIndex();
+	// Open documents may be outside the indexed folders or have unsaved edits.
+	const open = documents.get(params.item.uri);
+	const fileJobs = open ? collectContractJobs(params.item.uri, open.getText()) : callHierarchyIndex.jobsIn(params.item.uri);
+	return buildOutgoingCalls(params.item, fileJobs, callHierarchyIndex.jobs());
+});
+
+connection.onFoldingRanges((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	return buildFoldingRanges(document);
+});
+
+function codeActionRequested(kind: string | undefined, only: string[] | undefined): boolean {
+	return !only || only.some((requested) => kind === requested || kind?.startsWith(`${requested}.`));
+}
+
+connection.onCodeAction(async (params): Promise<CodeAction[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	const actions: CodeAction[] = [];
+	const hasSelection = params.range.start.line !== params.range.end.line || params.range.start.character !== params.range.end.character;
+	const context = params.context.diagnostics.length > 0 || hasSelection ? await getOrBuildDocumentSpecContext(document) : undefined;
+	if (context && params.context.diagnostics.length > 0) {
+		actions.push(
+			...buildUndefinedNameFixes(document, params.context.diagnostics, context.specs),
+			...buildCountMismatchFixes(document, params.context.diagnostics, context.specs),
+			...buildLintFixes(document, params.context.diagnostics, await getLintConfig(document.uri)),
+			...buildSuppressionFixes(document, params.context.diagnostics)
+		);
+	}
+	const extractDef = buildExtractDefAction(document, params.range);
+	if (extractDef) {
+		actions.push(extractDef);
+	}
+	const extractContract = context && hasSelection ? buildExtractContractAction(document, params.range, context.specs) : null;
+	if (extractContract) {
+		actions.push(extractContract);
+	}
+	const inlineDef = buildInlineDefAction(document, params.range);
+	if (inlineDef) {
+		actions.push(inlineDef);
+	}
+	actions.push(...buildClassificationShorthandActions(document, params.range));
+	const optimizeDefaults = buildOptimizeDefaultsAction(document);
+	if (optimizeDefaults) {
+		actions.push(optimizeDefaults);
+	}
+	return actions.filter((action) => codeActionRequested(action.kind, params.context.only));
+});
+
+connection.onSelectionRanges((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	return buildSelectionRanges(document, params.positions);
+});
+
+connection.onRequest(inlayHintRequest, async (params): Promise<InlayHint[]> => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return [];
+	}
+
+	const settings = await getDocumentSettings(params.textDocument.uri);
+	const options = {
+		requirementNames: settings.inlayHints?.requirementNames ?? true,
+		targetTypes: settings.inlayHints?.targetTypes ?? true,
+		parameterTypes: settings.inlayHints?.parameterTypes ?? true,
+	};
+	const context = await getOrBuildDocumentSpecContext(document);
+	return buildInlayHints(document, params.range, options, context.specs);
+});
+
+connection.onSignatureHelp(async (params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const call = findSignatureCall(document, params.position);
+	if (!call) {
+		return null;
+	}
+	if (call.kind === 'builtin') {
+		return buildBuiltinSignatureHelp(call.name, call.activeParameter);
+	}
+
+	const defaults = getDefaultsFromText(document.getText()) || { layer: '', variation: '', platform: '', supplier: '' };
+	try {
+		const result = await gatewayClient.fetchSpecResult(call.classification, {
+			kind: call.keyword === 'sub' ? 'contract' : 'protocol',
+			defaults,
+		});
+		return result.spec ? buildCollaborationSignatureHelp(call, result.spec) : null;
+	} catch (err: any) {
+		connection.console.warn(`Signature help: failed to fetch spec ${call.classification}: ${err?.message ?? err}`);
+		return null;
+	}
+});
+
+connection.languages.semanticTokens.on((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return { data: [] };
+	}
+
+	return buildFullSemanticTokens(semanticTokenBuilders, document);
+});
+
+connection.languages.semanticTokens.onDelta((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return { edits: [] };
+	}
+
+	return buildSemanticTokensDelta(semanticTokenBuilders, document, params.previousResultId);
+});
+
+connection.onPrepareRename((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	return prepareRename(document, params.position);
+});
+
+connection.onRenameRequest((params) => {
+	const document = documents.get(params.textDocument.uri);
+	if (!document) {
+		return null;
+	}
+
+	const result = buildRenameEdit(document, params.position, params.newName);
+	if (result && 'error' in result) {
+		return new ResponseError(ErrorCodes.InvalidRequest, result.error);
+	}
+	return result?.edit ?? null;
+});
+
 connection.onDocumentFormatting((params) => {
 	const document = documents.get(params.textDocument.uri);
 	if (!document) {
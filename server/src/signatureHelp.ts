@@ -0,0 +1,191 @@
+import { ParameterInformation, SignatureHelp, SignatureInformation } from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { lexText } from "./lang/lexer";
+import { Defaults, normalizeContractClassification, normalizeProtocolClassification } from "./lang/normalization";
+import { Token, TokenKind } from "./lang/tokens";
+import { BUILTIN_FUNCTIONS, typeToDisplayString } from "./lang/typeChecker";
+import { ContractSpecTopic, getDefaultsFromText } from "./completionSupport";
+import { RemoteContractSpec, RemoteProtocolSpec, RemoteRequirement } from "./gatewayClient";
+
+export type SignatureCall =
+  | { kind: "builtin"; name: string; activeParameter: number }
+  | { kind: "collaboration"; keyword: "sub" | "host" | "join"; classification: string; activeParameter: number };
+
+// Protocol roles only promise a term name; the gateway serves them with the same fields as contract terms.
+export type SpecTerm = ContractSpecTopic & Partial<RemoteRequirement>;
+
+// A contract specification is its own role; protocol specifications carry one per side.
+export function collaborationRole(
+  keyword: string,
+  spec: RemoteContractSpec | RemoteProtocolSpec
+): { requirements?: SpecTerm[]; obligations?: SpecTerm[] } | undefined {
+  if (keyword === "sub") return spec as RemoteContractSpec;
+  const protocol = spec as RemoteProtocolSpec;
+  return keyword === "host" ? protocol.host : keyword === "join" ? protocol.join : undefined;
+}
+
+const COLLABORATION_KEYWORDS = new Set(["sub", "host", "join"]);
+
+// `brackets` counts the list literals open inside the call, whose commas separate elements, not arguments.
+type OpenCall = { opener: Token[]; commas: number; brackets: number };
+
+function isBefore(token: Token, position: Position): boolean {
+  const { end } = token.range;
+  return end.line < position.line || (end.line === position.line && end.character <= position.character);
+}
+
+// The tokens that introduce a `(`: `pad`, or `sub <classification> [@ <supplier>]`.
+function callOpener(tokens: Token[], parenIndex: number): Token[] {
+  const previous = tokens[parenIndex - 1];
+  if (!previous) return [];
+  if (previous.kind === TokenKind.Keyword) return [previous];
+  let index = parenIndex - 1;
+  if (tokens[index]?.kind === TokenKind.Supplier) index -= 1;
+  if (tokens[index]?.kind === TokenKind.At) index -= 1;
+  if (tokens[index]?.kind !== TokenKind.Classification || tokens[index - 1]?.kind !== TokenKind.Keyword) return [];
+  return [tokens[index - 1], tokens[index]];
+}
+
+/**
+ * Finds the innermost builtin or sub/host/join argument list the cursor sits in, with the active
+ * parameter counted from the top-level commas before the cursor; commas inside `[...]` lists do not count.
+ */
+export function findSignatureCall(document: TextDocument, position: Position): SignatureCall | null {
+  const text = document.getText();
+  const { tokens } = lexText(text);
+  const open: OpenCall[] = [];
+  for (let i = 0; i < tokens.length && isBefore(tokens[i], position); i++) {
+    const token = tokens[i];
+    if (token.kind === TokenKind.LParen) {
+      open.push({ opener: callOpener(tokens, i), commas: 0, brackets: 0 });
+    } else if (token.kind === TokenKind.RParen) {
+      open.pop();
+    } else if (open.length === 0) {
+      continue;
+    } else if (token.kind === TokenKind.LBracket) {
+      open[open.length - 1].brackets += 1;
+    } else if (token.kind === TokenKind.RBracket) {
+      open[open.length - 1].brackets = Math.max(0, open[open.length - 1].brackets - 1);
+    } else if (token.kind === TokenKind.Comma && open[open.length - 1].brackets === 0) {
+      open[open.length - 1].commas += 1;
+    }
+  }
+
+  const call = open[open.length - 1];
+  if (!call || call.opener.length === 0) return null;
+  const keyword = call.opener[0].lexeme.toLowerCase();
+  if (call.opener.length === 1) {
+    return Object.prototype.hasOwnProperty.call(BUILTIN_FUNCTIONS, keyword)
+      ? { kind: "builtin", name: keyword, activeParameter: call.commas }
+      : null;
+  }
+  if (!COLLABORATION_KEYWORDS.has(keyword)) return null;
+  const defaults: Defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  const raw = call.opener[1].lexeme;
+  const classification =
+    keyword === "sub" ? normalizeContractClassification(raw, defaults) : normalizeProtocolClassification(raw, defaults);
+  if (!classification) return null;
+  return {
+    kind: "collaboration",
+    keyword: keyword as "sub" | "host" | "join",
+    classification,
+    activeParameter: call.commas,
+  };
+}
+
+// Parameters are given as label offsets so repeated labels such as `STRING, STRING` highlight correctly.
+function buildSignature(
+  prefix: string,
+  parameters: Array<{ label: string; documentation?: string }>,
+  suffix: string,
+  documentation?: string
+): SignatureInformation {
+  let label = `${prefix}(`;
+  const parameterInfos: ParameterInformation[] = [];
+  parameters.forEach((parameter, index) => {
+    if (index > 0) label += ", ";
+    const start = label.length;
+    label += parameter.label;
+    parameterInfos.push(ParameterInformation.create([start, label.length], parameter.documentation));
+  });
+  label += `)${suffix}`;
+  return SignatureInformation.create(label, documentation, ...parameterInfos);
+}
+
+function clampActiveParameter(activeParameter: number, parameterCount: number, variadic: boolean): number {
+  if (parameterCount === 0) return 0;
+  return variadic ? Math.min(activeParameter, parameterCount - 1) : activeParameter;
+}
+
+export function buildBuiltinSignatureHelp(name: string, activeParameter: number): SignatureHelp | null {
+  const builtin = BUILTIN_FUNCTIONS[name.toLowerCase()];
+  if (!builtin) return null;
+  const parameters = builtin.params.map((type) => ({ label: typeToDisplayString(type) }));
+  if (builtin.variadic) {
+    parameters.push({ label: `...${typeToDisplayString(builtin.variadic)}` });
+  }
+  const returns = builtin.returns.map(typeToDisplayString).join(", ");
+  const signature = buildSignature(name.toLowerCase(), parameters, returns ? ` -> ${returns}` : "");
+  return {
+    signatures: [signature],
+    activeSignature: 0,
+    activeParameter: clampActiveParameter(activeParameter, parameters.length, !!builtin.variadic),
+  };
+}
+
+function termTypeLabel(term: SpecTerm): string {
+  switch (term.type) {
+    case "abstraction":
+      return term.protocol ?? "abstraction";
+    case "integer":
+      return "INTEGER";
+    case "string":
+      return "STRING";
+    case "boolean":
+      return "BOOLEAN";
+    default:
+      return term.type ?? "";
+  }
+}
+
+function termLabel(term: SpecTerm): string {
+  const type = termTypeLabel(term);
+  return type ? `${term.name ?? ""}::${type}` : term.name ?? "";
+}
+
+function termDocumentation(term: SpecTerm): string | undefined {
+  const constraints: string[] = [];
+  if (term.hint) constraints.push(`hint ${term.hint}`);
+  if (term.length !== undefined) constraints.push(`length ${term.length}`);
+  if (term.minimum !== undefined) constraints.push(`min ${term.minimum}`);
+  if (term.maximum !== undefined) constraints.push(`max ${term.maximum}`);
+  return constraints.length > 0 ? constraints.join(", ") : undefined;
+}
+
+/**
+ * Signature for a sub/host/join call: requirements are the parameters, obligations follow the arrow.
+ * host and join calls use the matching role of the protocol specification.
+ */
+export function buildCollaborationSignatureHelp(
+  call: Extract<SignatureCall, { kind: "collaboration" }>,
+  spec: RemoteContractSpec | RemoteProtocolSpec
+): SignatureHelp | null {
+  const role = collaborationRole(call.keyword, spec);
+  if (!role) return null;
+  const parameters = (role.requirements ?? []).map((term) => ({
+    label: termLabel(term),
+    documentation: termDocumentation(term),
+  }));
+  const obligations = (role.obligations ?? []).map(termLabel).join(", ");
+  const signature = buildSignature(
+    `${call.keyword} ${call.classification}`,
+    parameters,
+    obligations ? ` -> ${obligations}` : "",
+    spec.description
+  );
+  return {
+    signatures: [signature],
+    activeSignature: 0,
+    activeParameter: clampActiveParameter(call.activeParameter, parameters.length, false),
+  };
+}
@@ -0,0 +1,71 @@
+import { CodeAction, Diagnostic, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DIAGNOSTIC_RULES, DiagnosticCode } from "./lang/diagnosticCodes";
+import { lexText } from "./lang/lexer";
+import { Suppression } from "./lang/suppressions";
+import { quickFix, samePosition } from "./codeActionSupport";
+
+const UNUSED_SUPPRESSION: DiagnosticCode = "EC0009";
+
+function isDiagnosticCode(code: Diagnostic["code"]): code is DiagnosticCode {
+  return typeof code === "string" && code in DIAGNOSTIC_RULES;
+}
+
+// Adds the code to an existing suppression comment, or writes a new comment at `insertAt`.
+function suppressEdit(existing: Suppression | undefined, code: DiagnosticCode, insertAt: Range["start"], comment: string): TextEdit {
+  return existing ? TextEdit.insert(existing.range.end, `, ${code}`) : TextEdit.insert(insertAt, `${comment} ${code}\n`);
+}
+
+function removeEntryEdit(document: TextDocument, suppression: Suppression, index: number): TextEdit {
+  const { codes, range } = suppression;
+  if (codes.length > 1) {
+    // Take the separator with the code: the one before it, or the one after the first code.
+    const removed = index > 0 ? { start: codes[index - 1].range.end, end: codes[index].range.end } : { start: codes[0].range.start, end: codes[1].range.start };
+    return TextEdit.del(removed);
+  }
+  const line = document.getText({ start: { line: range.start.line, character: 0 }, end: range.start });
+  if (!line.trim()) return TextEdit.del({ start: { line: range.start.line, character: 0 }, end: { line: range.start.line + 1, character: 0 } });
+  return TextEdit.del({ start: { line: range.start.line, character: line.trimEnd().length }, end: range.end });
+}
+
+/**
+ * Quick fixes that silence a diagnostic with an `ec-ignore-next-line` or `ec-ignore-file` comment,
+ * extending an existing comment when there is one, and that remove suppressions reported as unused.
+ */
+export function buildSuppressionFixes(document: TextDocument, diagnostics: Diagnostic[]): CodeAction[] {
+  const coded = diagnostics.filter((diagnostic) => diagnostic.source === "emergent" && isDiagnosticCode(diagnostic.code));
+  if (coded.length === 0) return [];
+  const { suppressions } = lexText(document.getText());
+  const actions: CodeAction[] = [];
+  const offered = new Set<string>();
+
+  for (const diagnostic of coded) {
+    const code = diagnostic.code as DiagnosticCode;
+    if (code === UNUSED_SUPPRESSION) {
+      for (const suppression of suppressions) {
+        const index = suppression.codes.findIndex((entry) => samePosition(entry.range.start, diagnostic.range.start));
+        if (index < 0) continue;
+        const entry = suppression.codes[index].text;
+        actions.push(quickFix(document, `Remove unused suppression for '${entry}'`, diagnostic, [removeEntryEdit(document, suppression, index)]));
+      }
+      continue;
+    }
+
+    const line = diagnostic.range.start.line;
+    const rule = `${code} (${DIAGNOSTIC_RULES[code].name})`;
+    if (!offered.has(`${line}:${code}`)) {
+      offered.add(`${line}:${code}`);
+      const existing = suppressions.find((suppression) => suppression.scope === "next-line" && suppression.line === line);
+      const indent = /^[ \t]*/.exec(document.getText({ start: { line, character: 0 }, end: { line: line + 1, character: 0 } }))?.[0] ?? "";
+      const edit = suppressEdit(existing, code, { line, character: 0 }, `${indent}// ec-ignore-next-line`);
+      actions.push(quickFix(document, `Suppress ${rule} for this line`, diagnostic, [edit]));
+    }
+    if (!offered.has(`file:${code}`)) {
+      offered.add(`file:${code}`);
+      const existing = suppressions.find((suppression) => suppression.scope === "file");
+      const edit = suppressEdit(existing, code, { line: 0, character: 0 }, "// ec-ignore-file");
+      actions.push(quickFix(document, `Suppress ${rule} in this file`, diagnostic, [edit]));
+    }
+  }
+  return actions;
+}
@@ -0,0 +1,144 @@
+import { CodeAction, Diagnostic, Position, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { childBlocks, DefNode, JobNode, NodeKind, Statement } from "./lang/ast";
+import { lexText } from "./lang/lexer";
+import { Defaults, normalizeContractClassification } from "./lang/normalization";
+import { parseText } from "./lang/parser";
+import { resolveProgram, Scope } from "./lang/resolver";
+import { Token } from "./lang/tokens";
+import { getDefaultsFromText } from "./completionSupport";
+import { RemoteContractSpec } from "./gatewayClient";
+import { parenthesesAfter, quickFix, samePosition, termLabel } from "./codeActionSupport";
+import { rangeContains } from "./ranges";
+
+const UNDEFINED_NAME_PATTERN = /^Undefined name '(.+)'$/;
+const MAX_SUGGESTIONS = 3;
+
+type Header = JobNode | DefNode;
+
+/** Optimal string alignment distance: Levenshtein plus adjacent transpositions, so `vaule` is one edit from `value`. */
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Labels, parameters, defs and builtins visible from the scope, innermost first; `$` is never a suggestion.
+function visibleNames(scope: Scope): string[] {
+  const names = new Set<string>();
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    for (const name of current.bindings.keys()) {
+      if (name !== "$") names.add(name);
+    }
+  }
+  return Array.from(names);
+}
+
+/** Visible names closest to `name`, allowing roughly one edit per three characters. */
+export function rankSuggestions(name: string, candidates: string[]): string[] {
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  return candidates
+    .map((candidate) => ({ candidate, distance: editDistance(name, candidate) }))
+    .filter(({ distance }) => distance > 0 && distance <= limit && distance < name.length)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+function enclosingHeader(statements: Statement[], position: Position): Header | undefined {
+  for (const statement of statements) {
+    if (!rangeContains(statement.range, position)) continue;
+    for (const block of childBlocks(statement)) {
+      const nested = enclosingHeader(block.statements, position);
+      if (nested) return nested;
+    }
+    if (statement.kind === NodeKind.Job || statement.kind === NodeKind.Def) return statement;
+  }
+  return undefined;
+}
+
+type HeaderRole = "param" | "target";
+
+/** Where a name goes in a header; `index` is the matching term's position in a fetched specification. */
+type HeaderSlot = { role: HeaderRole; index?: number };
+
+/**
+ * Whether the name belongs in the header's parameters or targets. A job with a fetched specification
+ * only takes names that match one of its requirement or obligation terms; otherwise a read is a parameter.
+ */
+function headerSlot(header: Header, name: string, specs: Record<string, RemoteContractSpec>, defaults: Defaults): HeaderSlot | null {
+  if (header.kind === NodeKind.Def || !header.classification) return { role: "param" };
+  const classification = normalizeContractClassification(header.classification.lexeme, defaults);
+  const spec = classification ? specs[classification] : undefined;
+  if (!spec) return { role: "param" };
+  const obligation = (spec.obligations ?? []).findIndex((term) => termLabel(term) === name);
+  if (obligation >= 0) return { role: "target", index: obligation };
+  const requirement = (spec.requirements ?? []).findIndex((term) => termLabel(term) === name);
+  if (requirement >= 0) return { role: "param", index: requirement };
+  return null;
+}
+
+// Job headers with a specification are positional, so the name goes where its term is; others append.
+function declareInHeader(tokens: Token[], header: Header, name: string, { role, index }: HeaderSlot): TextEdit | null {
+  const anchor = header.kind === NodeKind.Job ? header.classification : header.name;
+  if (!anchor) return null;
+  const { close, last } = parenthesesAfter(tokens, anchor);
+  const entries = role === "param" ? header.params : header.targets;
+  if (index !== undefined && index < entries.length) return TextEdit.insert(entries[index].range.start, `${name}, `);
+  if (entries.length > 0) return TextEdit.insert(entries[entries.length - 1].range.end, `, ${name}`);
+  if (role === "target") return TextEdit.insert(last.range.end, ` ${name}`);
+  return close ? TextEdit.insert(close.range.start, name) : TextEdit.insert(last.range.end, `(${name})`);
+}
+
+function declareTitle(header: Header, name: string, role: HeaderRole): string {
+  const owner = header.kind === NodeKind.Job ? "the job" : `def '${header.name.lexeme}'`;
+  return `Declare '${name}' as ${role === "param" ? "a parameter" : "an obligation"} of ${owner}`;
+}
+
+/**
+ * Quick fixes for `Undefined name 'x'`: replace the name with the closest visible bindings and builtins,
+ * and declare it in the enclosing job or def header when it looks like a missing header label.
+ */
+export function buildUndefinedNameFixes(
+  document: TextDocument,
+  diagnostics: Diagnostic[],
+  specs: Record<string, RemoteContractSpec>
+): CodeAction[] {
+  const undefinedNames = diagnostics.filter((diagnostic) => UNDEFINED_NAME_PATTERN.test(diagnostic.message));
+  if (undefinedNames.length === 0) return [];
+
+  const text = document.getText();
+  const { program } = parseText(text);
+  const defaults: Defaults = getDefaultsFromText(text) ?? { layer: "", variation: "", platform: "" };
+  const unresolved = resolveProgram(program, { collectReferences: true }).unresolved ?? [];
+  const tokens = lexText(text).tokens;
+
+  const actions: CodeAction[] = [];
+  for (const diagnostic of undefinedNames) {
+    const entry = unresolved.find((candidate) => samePosition(candidate.token.range.start, diagnostic.range.start));
+    if (!entry) continue;
+    const name = entry.token.lexeme;
+    rankSuggestions(name, visibleNames(entry.scope)).forEach((suggestion, index) => {
+      const action = quickFix(document, `Change to '${suggestion}'`, diagnostic, [TextEdit.replace(entry.token.range, suggestion)]);
+      action.isPreferred = index === 0;
+      actions.push(action);
+    });
+
+    const header = enclosingHeader(program.statements, entry.token.range.start);
+    const slot = header ? headerSlot(header, name, specs, defaults) : null;
+    const edit = header && slot ? declareInHeader(tokens, header, name, slot) : null;
+    if (header && slot && edit) {
+      actions.push(quickFix(document, declareTitle(header, name, slot.role), diagnostic, [edit]));
+    }
+  }
+  return actions;
+}
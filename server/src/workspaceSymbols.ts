@@ -0,0 +1,68 @@
+import { DocumentSymbol, SymbolInformation, SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildDocumentSymbols } from "./documentSymbols";
+
+export const WORKSPACE_SYMBOL_RESULT_LIMIT = 500;
+
+function collectIndexedSymbols(uri: string, symbols: DocumentSymbol[], containerName?: string): SymbolInformation[] {
+  const result: SymbolInformation[] = [];
+  for (const symbol of symbols) {
+    // Only implementations are indexed: jobs and the defs nested in them. sub/host/join statements are
+    // uses of other components and would drown the results.
+    if (symbol.kind !== SymbolKind.Module && symbol.kind !== SymbolKind.Function) {
+      if (symbol.kind === SymbolKind.Namespace) {
+        result.push(...collectIndexedSymbols(uri, symbol.children ?? [], containerName));
+      }
+      continue;
+    }
+    result.push(SymbolInformation.create(symbol.name, symbol.kind, symbol.selectionRange, uri, containerName));
+    result.push(...collectIndexedSymbols(uri, symbol.children ?? [], symbol.name));
+  }
+  return result;
+}
+
+function matchesQuery(name: string, query: string): boolean {
+  if (!query) return true;
+  const haystack = name.toLowerCase();
+  let index = 0;
+  for (const ch of query.toLowerCase()) {
+    index = haystack.indexOf(ch, index);
+    if (index < 0) return false;
+    index += 1;
+  }
+  return true;
+}
+
+/**
+ * Job and def symbols for every indexed expression file. Files are parsed once when added and again
+ * only when their content changes, so queries never reparse the workspace.
+ */
+export class WorkspaceSymbolIndex {
+  private readonly symbolsByUri = new Map<string, SymbolInformation[]>();
+
+  update(uri: string, text: string): void {
+    const document = TextDocument.create(uri, "emergent", 0, text);
+    this.symbolsByUri.set(uri, collectIndexedSymbols(uri, buildDocumentSymbols(document)));
+  }
+
+  remove(uri: string): void {
+    this.symbolsByUri.delete(uri);
+  }
+
+  clear(): void {
+    this.symbolsByUri.clear();
+  }
+
+  query(query: string, limit = WORKSPACE_SYMBOL_RESULT_LIMIT): SymbolInformation[] {
+    const trimmed = query.trim();
+    const result: SymbolInformation[] = [];
+    for (const symbols of this.symbolsByUri.values()) {
+      for (const symbol of symbols) {
+        if (!matchesQuery(symbol.name, trimmed)) continue;
+        result.push(symbol);
+        if (result.length >= limit) return result;
+      }
+    }
+    return result;
+  }
+}
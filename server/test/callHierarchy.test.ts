@@ -0,0 +1,94 @@
+import { strict as assert } from "assert";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  buildIncomingCalls,
+  buildOutgoingCalls,
+  CallHierarchyIndex,
+  collectContractJobs,
+  prepareCallHierarchy,
+} from "../src/callHierarchy";
+
+const CALLEE = [
+  "defaults: data, default, x64, dao",
+  "job /data/transform/example/default/x64(a) out:",
+  "  sub new/integer@dao(a) -> out",
+  "end",
+].join("\n");
+
+// Uses a different layer default, so only the explicit and dotted forms resolve to the callee.
+const CALLER = [
+  "defaults: system, default, x64, dao",
+  "job /system/build/report/default/x64(x) out:",
+  "  sub /data/transform/example/./.@dao(x) -> y",
+  "  if y > 1 then",
+  "    sub /data/transform/example/default/x64@dao(y) -> out",
+  "  end",
+  "  join flow/x(y) -> z",
+  "end",
+].join("\n");
+
+const UNRELATED = ["defaults: system, default, x64, dao", "job /system/other/thing/default/x64(x) out:", "  sub transform/example@dao(x) -> out", "end"].join("\n");
+
+function buildIndex(): CallHierarchyIndex {
+  const index = new CallHierarchyIndex();
+  index.update("file:///callee.dla", CALLEE);
+  index.update("file:///caller.dla", CALLER);
+  index.update("file:///unrelated.dla", UNRELATED);
+  return index;
+}
+
+describe("call hierarchy", () => {
+  it("resolves shorthand classifications against each file's defaults", () => {
+    const [job] = collectContractJobs("file:///caller.dla", CALLER);
+    assert.equal(job.classification, "/system/build/report/default/x64");
+    assert.deepEqual(
+      job.calls.map((call) => `${call.keyword} ${call.classification}`),
+      ["sub /data/transform/example/default/x64", "sub /data/transform/example/default/x64", "join /system/flow/x/x64"]
+    );
+  });
+
+  it("prepares the job under the cursor or the indexed job a call refers to", () => {
+    const index = buildIndex();
+    const callee = TextDocument.create("file:///callee.dla", "emergent", 1, CALLEE);
+    assert.equal(prepareCallHierarchy(callee, { line: 1, character: 10 }, index.jobs())?.[0].name, "/data/transform/example/default/x64");
+
+    const caller = TextDocument.create("file:///caller.dla", "emergent", 1, CALLER);
+    const [target] = prepareCallHierarchy(caller, { line: 2, character: 10 }, index.jobs()) ?? [];
+    assert.equal(target.uri, "file:///callee.dla");
+    assert.equal(target.detail, "job");
+    assert.equal(prepareCallHierarchy(caller, { line: 3, character: 4 }, index.jobs()), null);
+  });
+
+  it("lists jobs in other files that sub the classification as incoming calls", () => {
+    const index = buildIndex();
+    const [callee] = index.jobsIn("file:///callee.dla");
+    const item = prepareCallHierarchy(TextDocument.create(callee.uri, "emergent", 1, CALLEE), callee.selectionRange.start, index.jobs())![0];
+    const incoming = buildIncomingCalls(item, index.jobs());
+    assert.deepEqual(
+      incoming.map((call) => [call.from.uri, call.fromRanges.map((range) => range.start.line)]),
+      [["file:///caller.dla", [2, 4]]]
+    );
+  });
+
+  it("groups outgoing calls by classification and shows unindexed ones at the call site", () => {
+    const index = buildIndex();
+    const caller = TextDocument.create("file:///caller.dla", "emergent", 1, CALLER);
+    const item = prepareCallHierarchy(caller, { line: 1, character: 10 }, index.jobs())![0];
+    const outgoing = buildOutgoingCalls(item, index.jobsIn("file:///caller.dla"), index.jobs());
+    assert.deepEqual(
+      outgoing.map((call) => [call.to.name, call.to.uri, call.to.detail, call.fromRanges.length]),
+      [
+        ["/data/transform/example/default/x64", "file:///callee.dla", "job", 2],
+        ["/system/flow/x/x64", "file:///caller.dla", "join", 1],
+      ]
+    );
+  });
+
+  it("forgets removed files", () => {
+    const index = buildIndex();
+    index.remove("file:///caller.dla");
+    const [callee] = index.jobsIn("file:///callee.dla");
+    const item = prepareCallHierarchy(TextDocument.create(callee.uri, "emergent", 1, CALLEE), callee.selectionRange.start, index.jobs())![0];
+    assert.deepEqual(buildIncomingCalls(item, index.jobs()), []);
+  });
+});
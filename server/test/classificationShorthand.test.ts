@@ -0,0 +1,130 @@
+import { strict as assert } from "assert";
+import { CodeAction, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  buildClassificationShorthandActions,
+  buildOptimizeDefaultsAction,
+  collapseClassification,
+  COLLAPSE_CLASSIFICATIONS_KIND,
+  EXPAND_CLASSIFICATIONS_KIND,
+  optimizeDefaults,
+} from "../src/classificationShorthand";
+
+const DEFAULTS = { layer: "data", variation: "default", platform: "x64" };
+
+const TEXT = [
+  "defaults: data, default, x64, dao",
+  "job /data/transform/example/default/x64(a) out:",
+  "  sub new/integer@dao(a) -> b",
+  "  sub /system/new/integer/./x64@dao(b) -> c",
+  "  join /data/flow/default/x64(c) -> out",
+  "end",
+].join("\n");
+
+function actionsAt(line: number, character: number): CodeAction[] {
+  const document = TextDocument.create("file:///shorthand.dla", "emergent", 1, TEXT);
+  const position = { line, character };
+  return buildClassificationShorthandActions(document, { start: position, end: position });
+}
+
+function apply(action: CodeAction): string[] {
+  const document = TextDocument.create("file:///shorthand.dla", "emergent", 1, TEXT);
+  return TextDocument.applyEdits(document, (action.edit?.changes?.[document.uri] ?? []) as TextEdit[]).split("\n");
+}
+
+describe("classification shorthand actions", () => {
+  it("collapses to the shortest form the defaults allow", () => {
+    assert.equal(collapseClassification("/data/new/integer/default/x64", DEFAULTS, false), "new/integer");
+    assert.equal(collapseClassification("/data/new/integer/wide/x64", DEFAULTS, false), "new/integer/wide");
+    assert.equal(collapseClassification("/data/new/integer/default/arm", DEFAULTS, false), "new/integer/./arm");
+    assert.equal(collapseClassification("/system/new/integer/default/x64", DEFAULTS, false), "/system/new/integer");
+    assert.equal(collapseClassification("/data/flow/default/x64", DEFAULTS, true), "flow");
+    assert.equal(collapseClassification("/data/new/integer/default/x64", { layer: "", variation: "", platform: "" }, false), "/data/new/integer/default/x64");
+  });
+
+  it("offers expand or collapse for the classification under the cursor", () => {
+    assert.deepEqual(
+      actionsAt(2, 8).filter((action) => action.kind === "refactor.rewrite").map((action) => action.title),
+      ["Expand classification to '/data/new/integer/default/x64'"]
+    );
+    // A cursor touching either edge of the classification counts as on it.
+    assert.equal(actionsAt(2, 17).filter((action) => action.kind === "refactor.rewrite").length, 1);
+    assert.equal(actionsAt(2, 5).filter((action) => action.kind === "refactor.rewrite").length, 0);
+    const collapse = actionsAt(1, 10).find((action) => action.kind === "refactor.rewrite");
+    assert.equal(collapse?.title, "Collapse classification to 'transform/example'");
+    assert.equal(apply(collapse!)[1], "job transform/example(a) out:");
+  });
+
+  it("rewrites every job, sub, host and join classification as source actions", () => {
+    const expand = actionsAt(0, 0).find((action) => action.kind === EXPAND_CLASSIFICATIONS_KIND)!;
+    assert.deepEqual(apply(expand).slice(1, 5), [
+      "job /data/transform/example/default/x64(a) out:",
+      "  sub /data/new/integer/default/x64@dao(a) -> b",
+      "  sub /system/new/integer/default/x64@dao(b) -> c",
+      "  join /data/flow/default/x64(c) -> out",
+    ]);
+    const collapse = actionsAt(0, 0).find((action) => action.kind === COLLAPSE_CLASSIFICATIONS_KIND)!;
+    assert.deepEqual(apply(collapse).slice(1, 5), [
+      "job transform/example(a) out:",
+      "  sub new/integer@dao(a) -> b",
+      "  sub /system/new/integer@dao(b) -> c",
+      "  join flow(c) -> out",
+    ]);
+  });
+
+  it("picks the defaults that minimise explicit segments and rewrites the file", () => {
+    const lines = [
+      "defaults: data, default, x64, dao",
+      "job /system/transform/example/default/arm(a) out:",
+      "  sub /system/new/integer/./arm@dao(a) -> b",
+      "  sub /data/new/integer/./arm@dao(b) -> c",
+      "  join /system/flow/./arm(c) -> out",
+      "end",
+    ];
+    assert.deepEqual(optimizeDefaults(lines.join("\n")), {
+      defaults: { layer: "system", variation: "default", platform: "arm" },
+      segments: 8,
+      currentSegments: 14,
+    });
+    const document = TextDocument.create("file:///optimize.dla", "emergent", 1, lines.join("\n"));
+    const action = buildOptimizeDefaultsAction(document)!;
+    assert.equal(action.title, "Optimize defaults line to 'system, default, arm'");
+    assert.deepEqual(TextDocument.applyEdits(document, (action.edit?.changes?.[document.uri] ?? []) as TextEdit[]).split("\n"), [
+      "defaults: system, default, arm, dao",
+      "job transform/example(a) out:",
+      "  sub new/integer@dao(a) -> b",
+      "  sub /data/new/integer@dao(b) -> c",
+      "  join flow(c) -> out",
+      "end",
+    ]);
+  });
+
+  it("adds a defaults line to a file without one", () => {
+    const lines = [
+      "job /system/transform/example/default/arm(a) out:",
+      "  sub /system/new/integer/default/arm@dao(a) -> b",
+      "  sub /data/new/integer/default/arm@local(b) -> c",
+      "  join /system/flow/default/arm(c) -> out",
+      "  sub /system/copy/integer/default/arm@dao(c) -> d",
+      "end",
+    ];
+    const document = TextDocument.create("file:///missing.dla", "emergent", 1, lines.join("\n"));
+    const action = buildOptimizeDefaultsAction(document)!;
+    assert.equal(action.title, "Add defaults line 'system, default, arm, dao'");
+    assert.deepEqual(TextDocument.applyEdits(document, (action.edit?.changes?.[document.uri] ?? []) as TextEdit[]).split("\n"), [
+      "defaults: system, default, arm, dao",
+      "",
+      "job transform/example(a) out:",
+      "  sub new/integer@dao(a) -> b",
+      "  sub /data/new/integer@local(b) -> c",
+      "  join flow(c) -> out",
+      "  sub copy/integer@dao(c) -> d",
+      "end",
+    ]);
+  });
+
+  it("offers nothing when the current defaults are already optimal", () => {
+    const document = TextDocument.create("file:///optimal.dla", "emergent", 1, TEXT);
+    assert.equal(buildOptimizeDefaultsAction(document), null);
+  });
+});
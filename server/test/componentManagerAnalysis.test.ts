@@ -20,6 +20,44 @@ describe("Component Manager expression analysis", () => {
     assert.deepEqual(job.statements[0].obligations.map((label) => label.label), ["role_output"]);
   });
 
+  it("collects sub statements at any depth of the job body", () => {
+    const analysis = analyseComponentManagerExpression(
+      "defaults: system, default, x64, local\n" +
+      "job /system/create/component/default/x64(input) -> output:\n" +
+      "  sub new/integer@dao(input) -> a\n" +
+      "  if a > 1 then\n" +
+      "    sub /data/copy/integer/default/x64@dao(a) -> output\n" +
+      "  end\n" +
+      "end\n"
+    );
+    const [job] = analysis.jobs;
+    assert.deepEqual(
+      job.subcontracts.map((sub) => [sub.classification, sub.range.start.line]),
+      [
+        ["/system/new/integer/default/x64", 2],
+        ["/data/copy/integer/default/x64", 4],
+      ]
+    );
+    assert.equal(job.statements.length, 0);
+  });
+
+  it("collects sub statements inside defs in the job body", () => {
+    const analysis = analyseComponentManagerExpression(
+      "defaults: system, default, x64, local\n" +
+      "job /system/create/component/default/x64(input) -> output:\n" +
+      "  def make(value) made:\n" +
+      "    sub new/integer@dao(value) -> made\n" +
+      "  end\n" +
+      "  make(input) -> output\n" +
+      "end\n"
+    );
+    const [job] = analysis.jobs;
+    assert.deepEqual(
+      job.subcontracts.map((sub) => [sub.classification, sub.range.start.line]),
+      [["/system/new/integer/default/x64", 3]]
+    );
+  });
+
   it("keeps multiple parsed jobs separate", () => {
     const analysis = analyseComponentManagerExpression(
       "job /system/create/one/default/x64():\nend\njob /system/create/two/default/x64():\nend\n"
@@ -0,0 +1,92 @@
+import { strict as assert } from "assert";
+import { Diagnostic, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildCountMismatchFixes } from "../src/countMismatchFixes";
+import { RemoteContractSpec } from "../src/gatewayClient";
+import { parseText } from "../src/lang/parser";
+import { typeCheckProgram } from "../src/lang/typeChecker";
+
+const SPECS = {
+  "/data/transform/example/default/x64": {
+    name: "/data/transform/example/default/x64",
+    requirements: [{ name: "Input Value", type: "integer" }, { name: "size", type: "integer" }],
+    obligations: [{ name: "result", type: "integer" }],
+  },
+  "/data/new/integer/default/x64": {
+    name: "/data/new/integer/default/x64",
+    requirements: [{ name: "label", type: "string" }, { name: "value", type: "integer" }],
+    obligations: [{ name: "out", type: "integer" }, { name: "size", type: "integer" }],
+  },
+} as unknown as Record<string, RemoteContractSpec>;
+
+function fix(lines: string[]): { titles: string[]; text: string } {
+  const text = lines.join("\n");
+  const document = TextDocument.create("file:///fix.dla", "emergent", 1, text);
+  const defaults = { layer: "data", variation: "default", platform: "x64" };
+  const diagnostics = typeCheckProgram(parseText(text).program, { specs: SPECS, defaults })
+    .diagnostics.filter((diagnostic) => diagnostic.code === "EC2002" || diagnostic.code === "EC2003")
+    .map((diagnostic) => ({ ...Diagnostic.create(diagnostic.range, diagnostic.message, undefined, diagnostic.code), data: diagnostic.data }));
+  const actions = buildCountMismatchFixes(document, diagnostics, SPECS);
+  const edits = actions.flatMap((action) => action.edit?.changes?.[document.uri] ?? []) as TextEdit[];
+  return { titles: actions.map((action) => action.title), text: TextDocument.applyEdits(document, edits) };
+}
+
+describe("count mismatch quick fixes", () => {
+  it("adds placeholder job parameters named after the missing requirements", () => {
+    const result = fix([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a) result:",
+      "  a -> result",
+      "end",
+    ]);
+    assert.deepEqual(result.titles, ["Add missing requirement to the job header"]);
+    assert.equal(result.text.split("\n")[1], "job /data/transform/example/default/x64(a, size) result:");
+
+    const bare = fix(["defaults: data, default, x64, dao", "job /data/transform/example/default/x64 result:", "  1 -> result", "end"]);
+    assert.equal(bare.text.split("\n")[1], "job /data/transform/example/default/x64(input_value, size) result:");
+  });
+
+  it("removes extra job labels only when nothing refers to them", () => {
+    const unused = fix([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a, b, c) result, extra:",
+      "  a + b -> result",
+      "end",
+    ]);
+    assert.deepEqual(unused.titles, [
+      "Remove unused extra parameter from the job header",
+      "Remove unused extra obligation from the job header",
+    ]);
+    assert.equal(unused.text.split("\n")[1], "job /data/transform/example/default/x64(a, b) result:");
+
+    const used = fix([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a, b, c) result:",
+      "  a + b + c -> result",
+      "end",
+    ]);
+    assert.deepEqual(used.titles, []);
+  });
+
+  it("completes sub arguments and obligation targets", () => {
+    const result = fix([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a, b) result:",
+      "  sub new/integer@dao(a) -> result",
+      "end",
+    ]);
+    assert.deepEqual(result.titles, ["Add missing argument to 'sub'", "Add missing obligation to 'sub'"]);
+    assert.equal(result.text.split("\n")[2], "  sub new/integer@dao(a, value) -> result, size");
+  });
+
+  it("drops extra sub arguments and unused extra targets", () => {
+    const result = fix([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a, b) result:",
+      "  sub new/integer@dao(a, b, 3) -> result, size, spare",
+      "end",
+    ]);
+    assert.deepEqual(result.titles, ["Remove extra argument from 'sub'", "Remove unused extra obligation from 'sub'"]);
+    assert.equal(result.text.split("\n")[2], "  sub new/integer@dao(a, b) -> result, size");
+  });
+});
@@ -0,0 +1,66 @@
+import { strict as assert } from "assert";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectDiagnostics } from "../src/diagnostics";
+
+function assignmentFor(lines: string[]): string[] {
+  const document = TextDocument.create("file:///assign.dla", "emergent", 1, lines.join("\n"));
+  return collectDiagnostics(document, { maxNumberOfProblems: 100 })
+    .filter((diagnostic) => diagnostic.code === "EC1009" || diagnostic.code === "EC1010")
+    .map((diagnostic) => `${diagnostic.range.start.line} ${diagnostic.message}`);
+}
+
+describe("definite assignment", () => {
+  it("reports obligations assigned in only one branch and reads on the other path", () => {
+    assert.deepEqual(
+      assignmentFor([
+        "job /data/transform/example/default/x64(a) out, total:",
+        "  if a > 1 then",
+        "    a -> out",
+        "  else",
+        "    a + 1 -> total",
+        "  end",
+        "  out + 1 -> total",
+        "end",
+      ]),
+      [
+        "2 Obligation 'out' is assigned in the then branch but not in the else branch",
+        "6 Label 'out' may be read before it is assigned",
+      ]
+    );
+  });
+
+  it("accepts obligations assigned on every path, in any statement order", () => {
+    assert.deepEqual(
+      assignmentFor([
+        "job /data/transform/example/default/x64(a) out, total:",
+        "  out + 1 -> total",
+        "  if a > 1 then",
+        "    a -> out",
+        "  else",
+        "    a + 1 -> out",
+        "  end",
+        "end",
+      ]),
+      []
+    );
+  });
+
+  it("treats trailing outputs of an if without else as assigned on one path only", () => {
+    assert.deepEqual(
+      assignmentFor([
+        "job /data/transform/example/default/x64(a) out, total:",
+        "  if a > 1 then",
+        "    a",
+        "  end -> out",
+        "  if a > 2 then",
+        "    a",
+        "  else",
+        "    a + 1",
+        "  end -> both",
+        "  both + 1 -> total",
+        "end",
+      ]),
+      ["3 Obligation 'out' is assigned in the then branch but not in the else branch"]
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { strict as assert } from "assert";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectDiagnostics } from "../src/diagnostics";
+import { DIAGNOSTIC_RULES, findDiagnosticCode } from "../src/lang/diagnosticCodes";
+
+const TEXT = ["job /data/transform/example/default/x64(a) out:", "  missing + a -> out", "  (1 + 2 -> other", "end"].join("\n");
+
+function collect(severityOverrides?: Record<string, any>) {
+  const document = TextDocument.create("file:///codes.dla", "emergent", 1, TEXT);
+  return collectDiagnostics(document, { maxNumberOfProblems: 100, severityOverrides });
+}
+
+describe("diagnostic codes", () => {
+  it("gives every rule a unique name", () => {
+    const names = Object.values(DIAGNOSTIC_RULES).map((rule) => rule.name);
+    assert.equal(new Set(names).size, names.length);
+    assert.equal(findDiagnosticCode("undefined-name"), "EC1001");
+    assert.equal(findDiagnosticCode("ec2003"), "EC2003");
+    assert.equal(findDiagnosticCode("not-a-rule"), undefined);
+  });
+
+  it("reports codes with the rule's default severity", () => {
+    const undefinedName = collect().find((diagnostic) => diagnostic.code === "EC1001");
+    assert.equal(undefinedName?.message, "Undefined name 'missing'");
+    assert.equal(undefinedName?.severity, DiagnosticSeverity.Error);
+    assert.ok(collect().some((diagnostic) => diagnostic.code === "EC0005"));
+  });
+
+  it("applies severity overrides by code or rule name and drops rules turned off", () => {
+    const diagnostics = collect({ "undefined-name": "warning", EC0005: "off", EC3001: "loud" });
+    assert.equal(diagnostics.find((diagnostic) => diagnostic.code === "EC1001")?.severity, DiagnosticSeverity.Warning);
+    assert.ok(!diagnostics.some((diagnostic) => diagnostic.code === "EC0005"));
+  });
+});
@@ -0,0 +1,68 @@
+import { strict as assert } from "assert";
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildDocumentSymbols } from "../src/documentSymbols";
+
+const KIND_NAMES: Record<number, string> = {
+  [SymbolKind.Module]: "Module",
+  [SymbolKind.Namespace]: "Namespace",
+  [SymbolKind.Function]: "Function",
+  [SymbolKind.Interface]: "Interface",
+  [SymbolKind.Object]: "Object",
+};
+
+function outline(symbols: DocumentSymbol[], depth = 0): string[] {
+  return symbols.flatMap((symbol) => [
+    `${"  ".repeat(depth)}${KIND_NAMES[symbol.kind]} ${symbol.name}${symbol.detail ? ` [${symbol.detail}]` : ""}`,
+    ...outline(symbol.children ?? [], depth + 1),
+  ]);
+}
+
+describe("document symbols", () => {
+  it("outlines jobs, defs, if blocks and collaboration statements", () => {
+    const text = [
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example(a) out:",
+      "  sub add/integer@dao(a, 1) -> x",
+      "  def f(p) r:",
+      "    sub new/integer@dao(p) -> r",
+      "  end",
+      "  if a > 1 then",
+      "    host flow(x) -> y",
+      "  else",
+      "    2 -> y",
+      "  end -> out",
+      "  join other(y) -> {",
+      "    sub copy/integer@dao() -> z",
+      "  }",
+      "end",
+    ].join("\n");
+    const symbols = buildDocumentSymbols(TextDocument.create("file:///outline.dla", "emergent", 1, text));
+    assert.deepEqual(outline(symbols), [
+      "Module /data/transform/example/default/x64 [job]",
+      "  Object /data/add/integer/default/x64 [sub @dao]",
+      "  Function f [(p) -> r]",
+      "    Object /data/new/integer/default/x64 [sub @dao]",
+      "  Namespace if [-> out]",
+      "    Interface /data/flow/default/x64 [host]",
+      "    Namespace else",
+      "  Interface /data/other/default/x64 [join]",
+      "    Object /data/copy/integer/default/x64 [sub @dao]",
+    ]);
+  });
+
+  it("keeps selection ranges on the classification or def name", () => {
+    const text = "job /data/transform/example/default/x64(a) out:\n  def helper(p) r:\n    p -> r\n  end\n  helper(a) -> out\nend";
+    const [job] = buildDocumentSymbols(TextDocument.create("file:///select.dla", "emergent", 1, text));
+    assert.deepEqual(job.selectionRange.start, { line: 0, character: 4 });
+    const [helper] = job.children ?? [];
+    assert.equal(helper.name, "helper");
+    assert.deepEqual(helper.selectionRange.start, { line: 1, character: 6 });
+  });
+
+  it("lists top-level protocol statements in design documents", () => {
+    const text = "host /example/test(a, b) -> out\nend";
+    const symbols = buildDocumentSymbols(TextDocument.create("file:///design.dlp", "emergent", 1, text));
+    assert.deepEqual(outline(symbols), ["Interface /example/test [host]"]);
+  });
+});
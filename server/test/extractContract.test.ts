@@ -0,0 +1,57 @@
+import { strict as assert } from "assert";
+import { Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildExtractContractAction, EXTRACT_CONTRACT_COMMAND, ExtractContractArguments } from "../src/extractContract";
+
+const LINES = [
+  "defaults: data, default, x64, dao",
+  "job transform/example(a, b) out:",
+  "  a + b -> sum",
+  "  sum * 2 -> doubled",
+  "  doubled + 1 -> out",
+  "end",
+];
+
+function extract(range: Range, lines = LINES): ExtractContractArguments | null {
+  const document = TextDocument.create("file:///extract.dla", "emergent", 1, lines.join("\n"));
+  const action = buildExtractContractAction(document, range);
+  if (!action) return null;
+  assert.equal(action.command?.command, EXTRACT_CONTRACT_COMMAND);
+  return action.command?.arguments?.[0] as ExtractContractArguments;
+}
+
+describe("extract to contract", () => {
+  it("describes the new contract's terms, body and replaced lines", () => {
+    assert.deepEqual(extract({ start: { line: 2, character: 0 }, end: { line: 4, character: 0 } }), {
+      uri: "file:///extract.dla",
+      range: { start: { line: 2, character: 0 }, end: { line: 3, character: 20 } },
+      indent: "  ",
+      classification: "/data/transform/extracted/default/x64",
+      requirements: [
+        { type: "abstraction", name: "a", protocol: "" },
+        { type: "abstraction", name: "b", protocol: "" },
+      ],
+      obligations: [{ type: "integer", name: "doubled", minimum: 0, maximum: 0, hint: "" }],
+      body: ["a + b -> sum", "sum * 2 -> doubled"],
+    });
+  });
+
+  it("infers term types from the labels' uses", () => {
+    const lines = ["job /data/transform/example/default/x64(a) out:", "  \"total\" -> name", "  name -> out", "end"];
+    assert.deepEqual(extract({ start: { line: 1, character: 2 }, end: { line: 1, character: 17 } }, lines)?.obligations, [
+      { type: "string", name: "name", length: 0, hint: "" },
+    ]);
+  });
+
+  it("declines selections that call a def of the enclosing job", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  def twice(x) y:",
+      "    x * 2 -> y",
+      "  end",
+      "  twice(a) -> out",
+      "end",
+    ];
+    assert.equal(extract({ start: { line: 4, character: 2 }, end: { line: 4, character: 17 } }, lines), null);
+  });
+});
@@ -0,0 +1,116 @@
+import { strict as assert } from "assert";
+import { Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildExtractDefAction } from "../src/extractDef";
+
+const LINES = [
+  "defaults: data, default, x64, dao",
+  "job /data/transform/example/default/x64(a, b) out:",
+  "  a + b -> sum",
+  "  sum * 2 -> doubled",
+  "  doubled - a -> scratch",
+  "  doubled + 1 -> out",
+  "end",
+];
+
+function extract(range: Range, lines = LINES): string[] | null {
+  const document = TextDocument.create("file:///extract.dla", "emergent", 1, lines.join("\n"));
+  const action = buildExtractDefAction(document, range);
+  if (!action) return null;
+  return TextDocument.applyEdits(document, (action.edit?.changes?.[document.uri] ?? []) as TextEdit[]).split("\n");
+}
+
+describe("extract to def", () => {
+  it("turns free reads into parameters and labels used later into targets", () => {
+    assert.deepEqual(extract({ start: { line: 2, character: 2 }, end: { line: 4, character: 10 } }), [
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a, b) out:",
+      "  def extracted(a, b) doubled:",
+      "    a + b -> sum",
+      "    sum * 2 -> doubled",
+      "    doubled - a -> scratch",
+      "  end",
+      "  extracted(a, b) -> doubled",
+      "  doubled + 1 -> out",
+      "end",
+    ]);
+  });
+
+  it("returns header obligations assigned in the selection", () => {
+    assert.deepEqual(extract({ start: { line: 4, character: 0 }, end: { line: 5, character: 20 } })?.slice(2, 8), [
+      "  a + b -> sum",
+      "  sum * 2 -> doubled",
+      "  def extracted(doubled, a) out:",
+      "    doubled - a -> scratch",
+      "    doubled + 1 -> out",
+      "  end",
+    ]);
+  });
+
+  it("leaves the next line alone when a whole-line selection ends at its start", () => {
+    assert.deepEqual(extract({ start: { line: 2, character: 0 }, end: { line: 4, character: 0 } })?.slice(2, 9), [
+      "  def extracted(a, b) doubled:",
+      "    a + b -> sum",
+      "    sum * 2 -> doubled",
+      "  end",
+      "  extracted(a, b) -> doubled",
+      "  doubled - a -> scratch",
+      "  doubled + 1 -> out",
+    ]);
+  });
+
+  it("returns labels read above the selection", () => {
+    const lines = ["job /data/transform/example/default/x64(a) out:", "  x -> out", "  a + 1 -> x", "end"];
+    assert.deepEqual(extract({ start: { line: 2, character: 2 }, end: { line: 2, character: 11 } }, lines), [
+      "job /data/transform/example/default/x64(a) out:",
+      "  x -> out",
+      "  def extracted(a) x:",
+      "    a + 1 -> x",
+      "  end",
+      "  extracted(a) -> x",
+      "end",
+    ]);
+  });
+
+  it("replaces only the statements and keeps a trailing comment on their line", () => {
+    const lines = [...LINES.slice(0, 5), "  doubled + 1 -> out // result", "end"];
+    const document = TextDocument.create("file:///extract.dla", "emergent", 1, lines.join("\n"));
+    const edits = buildExtractDefAction(document, { start: { line: 5, character: 2 }, end: { line: 5, character: 20 } })?.edit?.changes?.[
+      document.uri
+    ] as TextEdit[];
+    assert.deepEqual(edits[0].range, { start: { line: 5, character: 2 }, end: { line: 5, character: 20 } });
+    assert.deepEqual(TextDocument.applyEdits(document, edits).split("\n").slice(5, 9), [
+      "  def extracted(doubled) out:",
+      "    doubled + 1 -> out",
+      "  end",
+      "  extracted(doubled) -> out // result",
+    ]);
+  });
+
+  it("extracts from if branches and picks an unused def name", () => {
+    const lines = [
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(a, extracted) out:",
+      "  if a > 1 then",
+      "    a + extracted -> out",
+      "  else",
+      "    a -> out",
+      "  end",
+      "end",
+    ];
+    assert.deepEqual(extract({ start: { line: 3, character: 4 }, end: { line: 3, character: 10 } }, lines)?.slice(2, 7), [
+      "  if a > 1 then",
+      "    def extracted_2(a, extracted) out:",
+      "      a + extracted -> out",
+      "    end",
+      "    extracted_2(a, extracted) -> out",
+    ]);
+  });
+
+  it("declines empty selections, job headers and statements using $", () => {
+    assert.equal(extract({ start: { line: 2, character: 2 }, end: { line: 2, character: 2 } }), null);
+    assert.equal(extract({ start: { line: 1, character: 0 }, end: { line: 3, character: 5 } }), null);
+    const flow = ["job /data/transform/example/default/x64(a) out:", "  $ -> out", "end"];
+    assert.equal(extract({ start: { line: 1, character: 0 }, end: { line: 1, character: 9 } }, flow), null);
+  });
+});
@@ -0,0 +1,69 @@
+import { strict as assert } from "assert";
+import { FoldingRange } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildFoldingRanges } from "../src/foldingRanges";
+
+function folds(lines: string[]): string[] {
+  const doc = TextDocument.create("file:///folding.dla", "emergent", 1, lines.join("\n"));
+  return buildFoldingRanges(doc).map(
+    (range: FoldingRange) => `${range.startLine}-${range.endLine}${range.kind ? ` ${range.kind}` : ""}`
+  );
+}
+
+describe("folding ranges", () => {
+  it("folds job, def, if/else and brace blocks while keeping closing lines visible", () => {
+    assert.deepEqual(
+      folds([
+        "job /data/transform/example/default/x64(a) out:",
+        "  def f(p) r:",
+        "    sub new/integer@dao(p) -> r",
+        "  end",
+        "  if a > 1 then",
+        "    host flow(a) -> y",
+        "  else",
+        "    2 -> y",
+        "  end -> out",
+        "  join other(y) -> {",
+        "    sub copy/integer@dao() -> z",
+        "  }",
+        "end",
+      ]),
+      ["0-11", "1-2", "4-5", "6-7", "9-10"]
+    );
+  });
+
+  it("folds an if without targets up to its closing end", () => {
+    assert.deepEqual(
+      folds([
+        "job /data/transform/example/default/x64(a, b) out:",
+        "  if a > b then",
+        "    a -> out",
+        "  else",
+        "    b -> out",
+        "  end",
+        "end",
+      ]),
+      ["0-5", "1-2", "3-4"]
+    );
+  });
+
+  it("folds runs of line comments and multi-line block comments", () => {
+    assert.deepEqual(
+      folds([
+        "// first",
+        "// second",
+        "job /data/transform/example/default/x64(a) out:",
+        "  /* a block",
+        "     comment */",
+        "  a -> out // trailing",
+        "  /* single line */",
+        "end",
+      ]),
+      ["0-1 comment", "2-6", "3-4 comment"]
+    );
+  });
+
+  it("ignores single-line constructs", () => {
+    assert.deepEqual(folds(["host /example/test(a, b) -> out", "end"]), []);
+  });
+});
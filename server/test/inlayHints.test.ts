@@ -0,0 +1,66 @@
+import { strict as assert } from "assert";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildInlayHints, InlayHintKind, InlayHintOptions } from "../src/inlayHints";
+import { RemoteContractSpec } from "../src/gatewayClient";
+
+const ALL: InlayHintOptions = { requirementNames: true, targetTypes: true, parameterTypes: true };
+const WHOLE = { start: { line: 0, character: 0 }, end: { line: 100, character: 0 } };
+
+const LINES = [
+  "defaults: data, default, x64, dao",
+  "job /data/transform/example/default/x64(a, b) out:",
+  "  def f(p, q) r:",
+  "    len(p) + q -> r",
+  "  end",
+  "  trunc(b, 3) -> z",
+  "  sub new/integer@dao(z, value) -> out",
+  "  join flow/x(z) -> ok",
+  "end",
+];
+
+const SPECS = {
+  "/data/new/integer/default/x64": {
+    name: "/data/new/integer/default/x64",
+    requirements: [{ name: "label", type: "string" }, { name: "value", type: "integer" }],
+    obligations: [{ name: "out", type: "integer" }],
+  },
+  "/data/flow/x/x64": { name: "/data/flow/x/x64", join: { requirements: [{ name: "size" }] } },
+} as unknown as Record<string, RemoteContractSpec>;
+
+function hints(options: InlayHintOptions, range = WHOLE): string[] {
+  const doc = TextDocument.create("file:///hints.dla", "emergent", 1, LINES.join("\n"));
+  return buildInlayHints(doc, range, options, SPECS).map(
+    (hint) => `${hint.position.line}:${hint.position.character} ${hint.label}${hint.kind === InlayHintKind.Parameter ? " (parameter)" : ""}`
+  );
+}
+
+describe("inlay hints", () => {
+  it("shows requirement names, target types from inference and specs, and def parameter types", () => {
+    assert.deepEqual(hints(ALL), [
+      "2:9 ::STRING",
+      "2:12 ::INTEGER",
+      "3:19 ::INTEGER",
+      "5:18 ::STRING",
+      "6:22 label: (parameter)",
+      "6:38 ::INTEGER",
+      "7:14 size: (parameter)",
+    ]);
+  });
+
+  it("skips arguments already named after their requirement and unknown types", () => {
+    const labels = hints(ALL);
+    assert.ok(!labels.some((label) => label.includes("value:")));
+    assert.ok(!labels.some((label) => label.startsWith("7:21")));
+  });
+
+  it("toggles each hint kind independently", () => {
+    assert.deepEqual(hints({ ...ALL, targetTypes: false, parameterTypes: false }), ["6:22 label: (parameter)", "7:14 size: (parameter)"]);
+    assert.deepEqual(hints({ ...ALL, requirementNames: false, targetTypes: false }), ["2:9 ::STRING", "2:12 ::INTEGER"]);
+    assert.deepEqual(hints({ ...ALL, requirementNames: false, parameterTypes: false }), ["3:19 ::INTEGER", "5:18 ::STRING", "6:38 ::INTEGER"]);
+    assert.deepEqual(hints({ requirementNames: false, targetTypes: false, parameterTypes: false }), []);
+  });
+
+  it("only returns hints inside the requested range", () => {
+    assert.deepEqual(hints(ALL, { start: { line: 5, character: 0 }, end: { line: 5, character: 40 } }), ["5:18 ::STRING"]);
+  });
+});
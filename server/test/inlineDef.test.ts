@@ -0,0 +1,104 @@
+import { strict as assert } from "assert";
+import { TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildInlineDefAction } from "../src/inlineDef";
+
+function inline(lines: string[], line: number, character: number): string[] | null {
+  const document = TextDocument.create("file:///inline.dla", "emergent", 1, lines.join("\n"));
+  const position = { line, character };
+  const action = buildInlineDefAction(document, { start: position, end: position });
+  if (!action) return null;
+  return TextDocument.applyEdits(document, (action.edit?.changes?.[document.uri] ?? []) as TextEdit[]).split("\n");
+}
+
+describe("inline def", () => {
+  it("substitutes arguments and targets and removes the def after its last call", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a, b) out:",
+      "  def scale(x, y) result:",
+      "    x * y -> product",
+      "    product + 1 -> result",
+      "  end",
+      "  scale(a, 2) -> out",
+      "end",
+    ];
+    assert.deepEqual(inline(lines, 5, 3), [
+      "job /data/transform/example/default/x64(a, b) out:",
+      "  a * 2 -> product",
+      "  product + 1 -> out",
+      "end",
+    ]);
+  });
+
+  it("binds complex arguments, renames clashing labels and keeps a def that is still called", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a, b) out, other:",
+      "  def scale(x) result:",
+      "    x * 2 -> product",
+      "    product + 1 -> result",
+      "  end",
+      "  a - 1 -> product",
+      "  scale(a + b) -> out",
+      "  scale(product) -> other",
+      "end",
+    ];
+    assert.deepEqual(inline(lines, 6, 3), [
+      "job /data/transform/example/default/x64(a, b) out, other:",
+      "  def scale(x) result:",
+      "    x * 2 -> product",
+      "    product + 1 -> result",
+      "  end",
+      "  a - 1 -> product",
+      "  a + b -> x",
+      "  x * 2 -> product_2",
+      "  product_2 + 1 -> out",
+      "  scale(product) -> other",
+      "end",
+    ]);
+  });
+
+  it("keeps the closing end of an if block that ends the def", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  def pick(x) result:",
+      "    if x > 1 then",
+      "      1 -> result",
+      "    else",
+      "      2 -> result",
+      "    end",
+      "  end",
+      "  pick(a) -> out",
+      "end",
+    ];
+    assert.deepEqual(inline(lines, 8, 3), [
+      "job /data/transform/example/default/x64(a) out:",
+      "  if a > 1 then",
+      "    1 -> out",
+      "  else",
+      "    2 -> out",
+      "  end",
+      "end",
+    ]);
+  });
+
+  it("declines defs using $ and recursive defs", () => {
+    const flow = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  def pass(x) result:",
+      "    $ -> result",
+      "  end",
+      "  pass(a) -> out",
+      "end",
+    ];
+    assert.equal(inline(flow, 4, 3), null);
+    const recursive = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  def loop(x) result:",
+      "    loop(x) -> result",
+      "  end",
+      "  loop(a) -> out",
+      "end",
+    ];
+    assert.equal(inline(recursive, 4, 3), null);
+  });
+});
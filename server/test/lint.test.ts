@@ -0,0 +1,103 @@
+import { strict as assert } from "assert";
+import { Diagnostic, DiagnosticSeverity, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectDiagnostics } from "../src/diagnostics";
+import { buildLintFixes, LintConfig, parseLintConfig } from "../src/lint";
+import { convertName } from "../src/lintRules";
+
+function documentFor(lines: string[]): TextDocument {
+  return TextDocument.create("file:///lint.dla", "emergent", 1, lines.join("\n"));
+}
+
+function configFor(rules: Record<string, unknown>): LintConfig {
+  const { config, problems } = parseLintConfig(JSON.stringify({ rules }));
+  assert.deepEqual(problems, []);
+  return config;
+}
+
+function lintFor(lines: string[], config: LintConfig): Diagnostic[] {
+  return collectDiagnostics(documentFor(lines), { maxNumberOfProblems: 100, lint: config }).filter((diagnostic) =>
+    String(diagnostic.code).startsWith("EC4")
+  );
+}
+
+function fixed(lines: string[], config: LintConfig): string[] {
+  const document = documentFor(lines);
+  const [action] = buildLintFixes(document, lintFor(lines, config), config);
+  return TextDocument.applyEdits(document, action.edit?.changes?.[document.uri] as TextEdit[]).split("\n");
+}
+
+const JOB = [
+  "defaults: data, default, x64, acme",
+  "job /data/transform/example/default/x64(inputValue) out:",
+  "  inputValue + 1 -> out",
+  "end",
+];
+
+describe("lint rules", () => {
+  it("reads rule levels and options and reports unusable entries", () => {
+    const { config, problems } = parseLintConfig(
+      JSON.stringify({ rules: { "label-naming": ["error", { style: "camelCase" }], EC4003: "off", "no-such-rule": "warning", EC4004: "loud" } })
+    );
+    assert.deepEqual([...config.rules], [["EC4001", { level: "error", options: { style: "camelCase" } }]]);
+    assert.deepEqual(problems, [
+      "Unknown lint rule 'no-such-rule'",
+      "Rule 'EC4004' has an invalid level 'loud'; use error, warning, information, hint or off",
+    ]);
+    assert.equal(parseLintConfig("{").problems.length, 1);
+  });
+
+  it("reports only the enabled rules, at the configured level unless the settings override it", () => {
+    assert.deepEqual(lintFor(JOB, { rules: new Map() }), []);
+    const config = configFor({ "label-naming": "error" });
+    assert.deepEqual(
+      lintFor(JOB, config).map((diagnostic) => [diagnostic.code, diagnostic.severity, diagnostic.message]),
+      [["EC4001", DiagnosticSeverity.Error, "Label 'inputValue' is not snake_case"]]
+    );
+    const overridden = collectDiagnostics(documentFor(JOB), { maxNumberOfProblems: 100, lint: config, severityOverrides: { EC4001: "hint" } });
+    assert.equal(overridden.find((diagnostic) => diagnostic.code === "EC4001")?.severity, DiagnosticSeverity.Hint);
+  });
+
+  it("renames labels to the configured style", () => {
+    assert.equal(convertName("inputValue", "snake_case"), "input_value");
+    assert.equal(convertName("_input_value", "camelCase"), "_inputValue");
+    assert.equal(convertName("input_value", "UPPER_CASE"), "INPUT_VALUE");
+    assert.deepEqual(fixed(JOB, configFor({ "label-naming": "warning" })).slice(1, 3), [
+      "job /data/transform/example/default/x64(input_value) out:",
+      "  input_value + 1 -> out",
+    ]);
+  });
+
+  it("flags forbidden suppliers, long jobs and fully-qualified classifications", () => {
+    const lines = [
+      "defaults: data, default, x64, acme",
+      "job /data/transform/example/default/x64(a) out:",
+      "  sub /data/add/integer/default/x64@rival(a, 1) -> out",
+      "end",
+    ];
+    const config = configFor({ "forbidden-supplier": ["warning", { suppliers: ["Rival"] }], "max-job-length": ["warning", { max: 2 }], EC4005: "warning" });
+    assert.deepEqual(
+      lintFor(lines, config).map((diagnostic) => diagnostic.message),
+      [
+        "Supplier 'rival' is not allowed in this workspace",
+        "Job is 3 lines long; the limit is 2",
+        "Classification '/data/transform/example/default/x64' can be written as 'transform/example'",
+        "Classification '/data/add/integer/default/x64' can be written as 'add/integer'",
+      ]
+    );
+    assert.equal(fixed(lines, configFor({ EC4005: "warning" }))[1], "job transform/example(a) out:");
+  });
+
+  it("adds a defaults line built from the first job when a supplier is configured", () => {
+    const lines = JOB.slice(1);
+    const withoutSupplier = configFor({ "require-defaults": "warning" });
+    const diagnostics = lintFor(lines, withoutSupplier);
+    assert.deepEqual(
+      diagnostics.map((diagnostic) => diagnostic.message),
+      ["File has no 'defaults' line"]
+    );
+    assert.deepEqual(buildLintFixes(documentFor(lines), diagnostics, withoutSupplier), []);
+    const config = configFor({ "require-defaults": ["warning", { supplier: "acme" }] });
+    assert.deepEqual(fixed(lines, config).slice(0, 2), ["defaults: data, default, x64, acme", ""]);
+  });
+});
@@ -0,0 +1,206 @@
+import { strict as assert } from "assert";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { DocumentHighlightKind } from "vscode-languageserver";
+import { buildDocumentHighlights, buildRenameEdit, findDefinition, findReferences, prepareRename } from "../src/navigation";
+
+function positionOf(text: string, needle: string, occurrence = 0): { line: number; character: number } {
+  let index = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    index = text.indexOf(needle, index + 1);
+    assert.ok(index >= 0, `expected occurrence ${occurrence} of '${needle}'`);
+  }
+  const before = text.slice(0, index);
+  const line = before.split("\n").length - 1;
+  const character = index - (before.lastIndexOf("\n") + 1);
+  return { line, character };
+}
+
+describe("go to definition", () => {
+  const text = [
+    "job /data/transform/example/default/x64(input) output:",
+    "  def double(value) result:",
+    "    value * 2 -> result",
+    "  end",
+    "  double(input) -> doubled",
+    "  doubled -> output",
+    "end",
+  ].join("\n");
+  const doc = TextDocument.create("file:///test.dla", "emergent", 1, text);
+
+  it("jumps from a body read to the job header parameter", () => {
+    const location = findDefinition(doc, positionOf(text, "input", 1));
+    assert.ok(location, "expected a definition");
+    assert.equal(location!.uri, "file:///test.dla");
+    assert.deepEqual(location!.range.start, positionOf(text, "input", 0));
+  });
+
+  it("jumps from a def call to the def name", () => {
+    const location = findDefinition(doc, positionOf(text, "double(input)"));
+    assert.deepEqual(location?.range.start, positionOf(text, "double(value)"));
+  });
+
+  it("jumps from a read to the first assignment target", () => {
+    const location = findDefinition(doc, positionOf(text, "doubled -> output"));
+    assert.deepEqual(location?.range.start, positionOf(text, "doubled"));
+  });
+
+  it("jumps from a body assignment of an obligation to the job header target", () => {
+    const location = findDefinition(doc, positionOf(text, "output", 1));
+    assert.deepEqual(location?.range.start, positionOf(text, "output", 0));
+  });
+
+  it("resolves def parameters inside the def scope", () => {
+    const location = findDefinition(doc, positionOf(text, "value * 2"));
+    assert.deepEqual(location?.range.start, positionOf(text, "value"));
+  });
+
+  it("resolves obligations assigned inside if branches to the header target", () => {
+    const branchText = "job /data/check/example/default/x64(flag) out:\n  if flag then\n    1 -> out\n  else\n    2 -> out\n  end\nend";
+    const branchDoc = TextDocument.create("file:///branch.dla", "emergent", 1, branchText);
+    const location = findDefinition(branchDoc, positionOf(branchText, "out", 2));
+    assert.deepEqual(location?.range.start, positionOf(branchText, "out", 0));
+  });
+
+  it("returns null outside labels", () => {
+    assert.equal(findDefinition(doc, positionOf(text, "/data/transform")), null);
+  });
+});
+
+describe("references and document highlights", () => {
+  const text = [
+    "job /data/transform/example/default/x64(value) output:",
+    "  def double(value) result:",
+    "    value * 2 -> result",
+    "  end",
+    "  double(value) -> doubled",
+    "  doubled + value -> output",
+    "end",
+  ].join("\n");
+  const doc = TextDocument.create("file:///refs.dla", "emergent", 1, text);
+
+  it("finds the declaration and every read of a label", () => {
+    const locations = findReferences(doc, positionOf(text, "doubled", 1));
+    assert.deepEqual(
+      locations.map((location) => location.range.start),
+      [positionOf(text, "doubled", 0), positionOf(text, "doubled", 1)]
+    );
+  });
+
+  it("omits the declaration when asked", () => {
+    const locations = findReferences(doc, positionOf(text, "doubled", 0), false);
+    assert.deepEqual(
+      locations.map((location) => location.range.start),
+      [positionOf(text, "doubled", 1)]
+    );
+  });
+
+  it("keeps a def parameter apart from the outer parameter it shadows", () => {
+    const inner = findReferences(doc, positionOf(text, "value * 2"));
+    assert.deepEqual(
+      inner.map((location) => location.range.start),
+      [positionOf(text, "value", 1), positionOf(text, "value", 2)]
+    );
+    const outer = findReferences(doc, positionOf(text, "value", 0));
+    assert.deepEqual(
+      outer.map((location) => location.range.start),
+      [positionOf(text, "value", 0), positionOf(text, "value", 3), positionOf(text, "value", 4)]
+    );
+  });
+
+  it("marks assignment targets as writes and arguments as reads", () => {
+    const highlights = buildDocumentHighlights(doc, positionOf(text, "output", 1));
+    assert.deepEqual(
+      highlights.map((highlight) => highlight.kind),
+      [DocumentHighlightKind.Text, DocumentHighlightKind.Write]
+    );
+    const labelHighlights = buildDocumentHighlights(doc, positionOf(text, "doubled", 0));
+    assert.deepEqual(
+      labelHighlights.map((highlight) => highlight.kind),
+      [DocumentHighlightKind.Write, DocumentHighlightKind.Read]
+    );
+  });
+
+  it("includes reads passed as collaboration arguments", () => {
+    const subText = "job /data/transform/example/default/x64(value) output:\n  sub new/integer@dao(value) -> output\nend";
+    const subDoc = TextDocument.create("file:///sub.dla", "emergent", 1, subText);
+    const locations = findReferences(subDoc, positionOf(subText, "value", 0));
+    assert.deepEqual(
+      locations.map((location) => location.range.start),
+      [positionOf(subText, "value", 0), positionOf(subText, "value", 1)]
+    );
+  });
+
+  it("returns nothing outside labels", () => {
+    assert.deepEqual(findReferences(doc, positionOf(text, "/data/transform")), []);
+    assert.deepEqual(buildDocumentHighlights(doc, positionOf(text, "/data/transform")), []);
+  });
+});
+
+describe("rename", () => {
+  const text = [
+    "job /data/transform/example/default/x64(value, limit) output:",
+    "  def double(value) result:",
+    "    value * 2 -> result",
+    "  end",
+    "  double(value) -> doubled",
+    "  doubled + limit -> output",
+    "end",
+  ].join("\n");
+  const doc = TextDocument.create("file:///rename.dla", "emergent", 1, text);
+
+  function renameTexts(result: ReturnType<typeof buildRenameEdit>): string[] {
+    assert.ok(result && "edit" in result, "expected a rename edit");
+    return result.edit.changes!["file:///rename.dla"].map((edit) => `${edit.range.start.line}:${edit.range.start.character}=${edit.newText}`);
+  }
+
+  it("offers the label under the cursor for rename", () => {
+    const prepared = prepareRename(doc, positionOf(text, "doubled", 1));
+    assert.deepEqual(prepared?.range.start, positionOf(text, "doubled", 1));
+    assert.equal(prepared?.placeholder, "doubled");
+    assert.equal(prepareRename(doc, positionOf(text, "/data/transform")), null);
+  });
+
+  it("renames a label and its reads", () => {
+    assert.deepEqual(renameTexts(buildRenameEdit(doc, positionOf(text, "doubled", 0), "twice")), ["4:19=twice", "5:2=twice"]);
+  });
+
+  it("renames a def name together with its calls", () => {
+    assert.deepEqual(renameTexts(buildRenameEdit(doc, positionOf(text, "double(value)"), "twice")), ["1:6=twice", "4:2=twice"]);
+  });
+
+  it("leaves a shadowing def parameter untouched when renaming the outer parameter", () => {
+    assert.deepEqual(renameTexts(buildRenameEdit(doc, positionOf(text, "value", 0), "amount")), ["0:40=amount", "4:9=amount"]);
+  });
+
+  it("refuses builtins, keywords and the scope name", () => {
+    const position = positionOf(text, "doubled", 0);
+    assert.match(errorOf(buildRenameEdit(doc, position, "concat")), /builtin function/);
+    assert.match(errorOf(buildRenameEdit(doc, position, "then")), /keyword/);
+    assert.match(errorOf(buildRenameEdit(doc, position, "$")), /reserved/);
+    assert.match(errorOf(buildRenameEdit(doc, position, "1abc")), /not a valid label name/);
+  });
+
+  it("refuses names that collide with a binding in an enclosing scope", () => {
+    const result = buildRenameEdit(doc, positionOf(text, "doubled", 0), "limit");
+    assert.match(errorOf(result), /existing 'limit' declared on line 1/);
+  });
+
+  it("refuses names that would capture a reference inside a nested def", () => {
+    const nestedText = [
+      "job /data/transform/example/default/x64(value, scale) output:",
+      "  def apply(factor) result:",
+      "    factor * scale -> result",
+      "  end",
+      "  apply(value) -> output",
+      "end",
+    ].join("\n");
+    const nestedDoc = TextDocument.create("file:///nested.dla", "emergent", 1, nestedText);
+    const result = buildRenameEdit(nestedDoc, positionOf(nestedText, "scale", 0), "factor");
+    assert.match(errorOf(result), /existing 'factor' declared on line 2/);
+  });
+});
+
+function errorOf(result: ReturnType<typeof buildRenameEdit>): string {
+  assert.ok(result && "error" in result, "expected the rename to be refused");
+  return result.error;
+}
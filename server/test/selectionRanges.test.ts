@@ -0,0 +1,54 @@
+import { strict as assert } from "assert";
+import { SelectionRange } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildSelectionRanges } from "../src/selectionRanges";
+
+function selectedTexts(text: string, line: number, character: number): string[] {
+  const doc = TextDocument.create("file:///selection.dla", "emergent", 1, text);
+  const [selection] = buildSelectionRanges(doc, [{ line, character }]);
+  const texts: string[] = [];
+  for (let current: SelectionRange | undefined = selection; current; current = current.parent) {
+    texts.push(doc.getText(current.range));
+  }
+  return texts;
+}
+
+describe("selection ranges", () => {
+  const text = [
+    "job /data/transform/example/default/x64(a, b) out:",
+    "  if a > b then",
+    "    join other(y) -> {",
+    "      sub add/integer@dao(a, b) -> out",
+    "    }",
+    "  else",
+    "    b -> out",
+    "  end",
+    "end",
+  ].join("\n");
+
+  it("expands from an argument through the statement, block, branch and job", () => {
+    const texts = selectedTexts(text, 3, 26);
+    assert.deepEqual(texts.slice(0, 3), ["a", "a, b", "sub add/integer@dao(a, b) -> out"]);
+    assert.ok(texts[3].startsWith("{") && texts[3].endsWith("}"), `expected the brace block, got ${texts[3]}`);
+    assert.ok(texts.includes("join other(y) -> {\n      sub add/integer@dao(a, b) -> out\n    }"));
+    assert.ok(texts.some((value) => value.startsWith("if a > b then") && value.endsWith("end")));
+    assert.equal(texts[texts.length - 1], text);
+  });
+
+  it("expands from a def call argument to the argument list", () => {
+    const defText = "job /data/transform/example/default/x64(a) out:\n  def twice(p) r:\n    p * 2 -> r\n  end\n  twice(a + 1) -> out\nend";
+    const texts = selectedTexts(defText, 4, 9);
+    assert.deepEqual(texts.slice(0, 4), ["a", "a + 1", "twice(a + 1)", "twice(a + 1) -> out"]);
+  });
+
+  it("returns one selection per requested position", () => {
+    const doc = TextDocument.create("file:///selection.dla", "emergent", 1, text);
+    const selections = buildSelectionRanges(doc, [
+      { line: 0, character: 41 },
+      { line: 6, character: 4 },
+    ]);
+    assert.equal(selections.length, 2);
+    assert.equal(doc.getText(selections[0].range), "a");
+    assert.equal(doc.getText(selections[1].range), "b");
+  });
+});
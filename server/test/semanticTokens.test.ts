@@ -0,0 +1,82 @@
+import { strict as assert } from "assert";
+import { SemanticTokensBuilder } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  buildFullSemanticTokens,
+  buildSemanticTokensDelta,
+  collectSemanticTokens,
+  encodeSemanticTokens,
+  SemanticTokenEntry,
+} from "../src/semanticTokens";
+
+function describeTokens(text: string, entries: SemanticTokenEntry[]): string[] {
+  const lines = text.split("\n");
+  return entries.map((entry) => {
+    const lexeme = lines[entry.line].slice(entry.character, entry.character + entry.length);
+    const modifiers = entry.tokenModifiers.length > 0 ? `.${entry.tokenModifiers.join(".")}` : "";
+    return `${lexeme}:${entry.tokenType}${modifiers}`;
+  });
+}
+
+describe("semantic tokens", () => {
+  const text = [
+    "job /data/transform/example/default/x64(value) output:",
+    "  def double(item) result:",
+    "    item * 2 -> result",
+    "  end",
+    "  sub new/integer@dao(double(value)) -> doubled",
+    "  host flow(doubled) -> shared",
+    "  asset(\"site\") -> place",
+    "  max(doubled, 1) -> output",
+    "end",
+  ].join("\n");
+  const doc = TextDocument.create("file:///tokens.dla", "emergent", 1, text);
+
+  it("classifies params, obligations, def names, labels, builtins, classifications and suppliers", () => {
+    assert.deepEqual(describeTokens(text, collectSemanticTokens(doc)), [
+      "/data/transform/example/default/x64:contractClassification",
+      "value:parameter.declaration",
+      "output:obligation.declaration",
+      "double:function.declaration",
+      "item:parameter.declaration",
+      "result:obligation.declaration",
+      "item:parameter",
+      "result:obligation",
+      "new/integer:contractClassification",
+      "dao:supplier",
+      "double:function",
+      "value:parameter",
+      "doubled:label.declaration",
+      "flow:protocolClassification",
+      "doubled:label",
+      "shared:label.declaration",
+      "asset:builtin",
+      "place:label.declaration.site",
+      "max:builtin",
+      "doubled:label",
+      "output:obligation",
+    ]);
+  });
+
+  it("encodes entries relative to the previous token", () => {
+    const builder = new SemanticTokensBuilder();
+    encodeSemanticTokens(builder, collectSemanticTokens(doc).slice(0, 2));
+    assert.deepEqual(builder.build().data, [0, 4, 35, 5, 0, 0, 36, 5, 0, 1]);
+  });
+
+  it("returns the same data for repeated full requests", () => {
+    const builders = new Map<string, SemanticTokensBuilder>();
+    const first = buildFullSemanticTokens(builders, doc);
+    const second = buildFullSemanticTokens(builders, doc);
+    assert.deepEqual(second.data, first.data);
+    assert.equal(second.data.length, collectSemanticTokens(doc).length * 5);
+  });
+
+  it("answers a delta request against the last full result", () => {
+    const builders = new Map<string, SemanticTokensBuilder>();
+    const { resultId } = buildFullSemanticTokens(builders, doc);
+    const delta = buildSemanticTokensDelta(builders, doc, resultId as string);
+    assert.ok("edits" in delta);
+    assert.deepEqual(delta.edits, []);
+  });
+});
@@ -0,0 +1,108 @@
+import { strict as assert } from "assert";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { RemoteProtocolSpec } from "../src/gatewayClient";
+import {
+  buildBuiltinSignatureHelp,
+  buildCollaborationSignatureHelp,
+  findSignatureCall,
+  SignatureCall,
+} from "../src/signatureHelp";
+
+const HEADER = "defaults: data, default, x64, dao";
+
+function callAt(lines: string[], line: number, character: number): SignatureCall | null {
+  const doc = TextDocument.create("file:///signature.dla", "emergent", 1, lines.join("\n"));
+  return findSignatureCall(doc, { line, character });
+}
+
+function highlighted(label: string, parameter: string | [number, number]): string {
+  return typeof parameter === "string" ? parameter : label.slice(parameter[0], parameter[1]);
+}
+
+describe("signature help", () => {
+  it("finds the enclosing sub call and counts top-level commas", () => {
+    const lines = [HEADER, "job /data/transform/example/default/x64(a, b) out:", "  sub new/integer@dao(a, pad(b, \" \", 4), "];
+    assert.deepEqual(callAt(lines, 2, lines[2].length), {
+      kind: "collaboration",
+      keyword: "sub",
+      classification: "/data/new/integer/default/x64",
+      activeParameter: 2,
+    });
+  });
+
+  it("does not count commas inside list literals", () => {
+    const lines = [HEADER, "job /data/transform/example/default/x64(a) out:", "  sub new/integer@dao([a, 1, 2], "];
+    assert.equal(callAt(lines, 2, lines[2].length)?.activeParameter, 1);
+  });
+
+  it("prefers the innermost builtin call", () => {
+    const lines = [HEADER, "job /data/transform/example/default/x64(a) out:", "  sub new/integer@dao(pad(a, "];
+    assert.deepEqual(callAt(lines, 2, lines[2].length), { kind: "builtin", name: "pad", activeParameter: 1 });
+  });
+
+  it("ignores closed argument lists and non-call parentheses", () => {
+    const lines = [HEADER, "job /data/transform/example/default/x64(a) out:", "  sub new/integer@dao(a) -> x", "  (a + "];
+    assert.equal(callAt(lines, 2, lines[2].length), null);
+    assert.equal(callAt(lines, 3, lines[3].length), null);
+  });
+
+  it("uses the host or join role of a protocol specification", () => {
+    const call = callAt([HEADER, "  join flow/x(a, "], 1, 17);
+    assert.equal(call?.kind, "collaboration");
+    // Protocol roles are declared with name-only terms, but the gateway serves typed ones.
+    const spec = {
+      name: "/data/flow/x/x64",
+      host: { requirements: [{ name: "h" }] },
+      join: { requirements: [{ name: "size", type: "integer" }, { name: "ready", type: "boolean" }], obligations: [{ name: "ok" }] },
+    } as RemoteProtocolSpec;
+    const help = buildCollaborationSignatureHelp(call as Extract<SignatureCall, { kind: "collaboration" }>, spec);
+    assert.equal(help?.signatures[0].label, "join /data/flow/x/x64(size::INTEGER, ready::BOOLEAN) -> ok");
+    assert.equal(help?.activeParameter, 1);
+  });
+
+  it("labels contract requirements with type, hint and constraints", () => {
+    const help = buildCollaborationSignatureHelp(
+      { kind: "collaboration", keyword: "sub", classification: "/data/new/integer/default/x64", activeParameter: 0 },
+      {
+        name: "/data/new/integer/default/x64",
+        description: "Creates an integer.",
+        requirements: [{ name: "value", type: "integer", hint: "cents", minimum: 0, maximum: 100 }, { name: "label", type: "string", length: 8 }],
+        obligations: [{ name: "out", type: "abstraction", protocol: "/data/integer/default/x64" }],
+      }
+    );
+    const signature = help!.signatures[0];
+    assert.equal(
+      signature.label,
+      "sub /data/new/integer/default/x64(value::INTEGER, label::STRING) -> out::/data/integer/default/x64"
+    );
+    assert.equal(signature.documentation, "Creates an integer.");
+    assert.deepEqual(
+      signature.parameters?.map((parameter) => [highlighted(signature.label, parameter.label), parameter.documentation]),
+      [
+        ["value::INTEGER", "hint cents, min 0, max 100"],
+        ["label::STRING", "length 8"],
+      ]
+    );
+  });
+
+  it("leaves out the arrow when the specification has no obligations", () => {
+    const help = buildCollaborationSignatureHelp(
+      { kind: "collaboration", keyword: "sub", classification: "/data/log/integer/default/x64", activeParameter: 0 },
+      { name: "/data/log/integer/default/x64", requirements: [{ name: "value", type: "integer" }], obligations: [] }
+    );
+    assert.equal(help?.signatures[0].label, "sub /data/log/integer/default/x64(value::INTEGER)");
+  });
+
+  it("builds builtin signatures from the type checker and clamps variadic parameters", () => {
+    const pad = buildBuiltinSignatureHelp("pad", 2)!;
+    assert.equal(pad.signatures[0].label, "pad(STRING, STRING, INTEGER) -> STRING");
+    assert.equal(highlighted(pad.signatures[0].label, pad.signatures[0].parameters![1].label), "STRING");
+    assert.deepEqual(pad.signatures[0].parameters![1].label, [12, 18]);
+    assert.equal(pad.activeParameter, 2);
+
+    const max = buildBuiltinSignatureHelp("max", 5)!;
+    assert.equal(max.signatures[0].label, "max(INTEGER, INTEGER, ...INTEGER) -> INTEGER");
+    assert.equal(max.activeParameter, 2);
+    assert.equal(buildBuiltinSignatureHelp("unknown", 0), null);
+  });
+});
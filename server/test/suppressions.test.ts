@@ -0,0 +1,108 @@
+import { strict as assert } from "assert";
+import { Diagnostic, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectDiagnostics } from "../src/diagnostics";
+import { buildSuppressionFixes } from "../src/suppressionFixes";
+
+function documentFor(lines: string[]): TextDocument {
+  return TextDocument.create("file:///suppress.dla", "emergent", 1, lines.join("\n"));
+}
+
+// Without specifications every job also reports an unknown contract; keep to the codes under test.
+function diagnosticsFor(lines: string[]): Diagnostic[] {
+  return collectDiagnostics(documentFor(lines), { maxNumberOfProblems: 100 }).filter(
+    (diagnostic) => diagnostic.code === "EC1001" || diagnostic.code === "EC0009"
+  );
+}
+
+function apply(lines: string[], edits: TextEdit[]): string[] {
+  return TextDocument.applyEdits(documentFor(lines), edits).split("\n");
+}
+
+describe("diagnostic suppressions", () => {
+  it("silences the next line or the whole file by code or rule name", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  // ec-ignore-next-line EC1001",
+      "  missing + a -> out",
+      "  other + a -> extra",
+      "end",
+    ];
+    assert.deepEqual(
+      diagnosticsFor(lines).map((diagnostic) => diagnostic.message),
+      ["Undefined name 'other'"]
+    );
+    assert.deepEqual(diagnosticsFor(["// ec-ignore-file undefined-name", ...lines.filter((_, index) => index !== 1)]), []);
+  });
+
+  it("reports suppressions that match nothing", () => {
+    const lines = ["job /data/transform/example/default/x64(a) out:", "  // ec-ignore-next-line EC1001, EC9999", "  a -> out", "end"];
+    assert.deepEqual(
+      diagnosticsFor(lines).map((diagnostic) => [diagnostic.code, diagnostic.message, diagnostic.range.start.character]),
+      [
+        ["EC0009", "Unused suppression for 'EC1001'", 25],
+        ["EC0009", "Unknown diagnostic code 'EC9999' in suppression", 33],
+      ]
+    );
+  });
+
+  it("keeps quiet about usage suppressions while the document has syntax errors", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  // ec-ignore-next-line EC1006, EC1001",
+      "  a -> scratch",
+      "  a + -> out",
+      "end",
+    ];
+    const diagnostics = collectDiagnostics(documentFor(lines), { maxNumberOfProblems: 100 });
+    assert.ok(diagnostics.some((diagnostic) => diagnostic.code === "EC0006"));
+    assert.deepEqual(
+      diagnosticsFor(lines).map((diagnostic) => diagnostic.message),
+      ["Unused suppression for 'EC1001'"]
+    );
+  });
+
+  it("silences unused suppression warnings on the next line or in the file", () => {
+    const lines = [
+      "job /data/transform/example/default/x64(a) out:",
+      "  // ec-ignore-next-line EC0009",
+      "  // ec-ignore-next-line EC1001",
+      "  a -> out",
+      "end",
+    ];
+    assert.deepEqual(diagnosticsFor(lines), []);
+    const fileWide = ["// ec-ignore-file unused-suppression", lines[0], ...lines.slice(2)];
+    assert.deepEqual(diagnosticsFor(fileWide), []);
+    assert.equal(diagnosticsFor(lines.filter((_, index) => index !== 1)).length, 1);
+  });
+
+  it("offers to suppress a diagnostic on its line or in the file", () => {
+    const lines = ["job /data/transform/example/default/x64(a) out:", "  missing + a -> out", "end"];
+    const actions = buildSuppressionFixes(documentFor(lines), diagnosticsFor(lines));
+    assert.deepEqual(
+      actions.map((action) => action.title),
+      ["Suppress EC1001 (undefined-name) for this line", "Suppress EC1001 (undefined-name) in this file"]
+    );
+    assert.deepEqual(apply(lines, actions[0].edit!.changes!["file:///suppress.dla"]), [
+      "job /data/transform/example/default/x64(a) out:",
+      "  // ec-ignore-next-line EC1001",
+      "  missing + a -> out",
+      "end",
+    ]);
+    assert.equal(apply(lines, actions[1].edit!.changes!["file:///suppress.dla"])[0], "// ec-ignore-file EC1001");
+  });
+
+  it("extends an existing comment and removes unused entries", () => {
+    const lines = ["job /data/transform/example/default/x64(a) out:", "  // ec-ignore-next-line EC3001", "  missing + a -> out", "end"];
+    const diagnostics = diagnosticsFor(lines);
+    const actions = buildSuppressionFixes(documentFor(lines), diagnostics);
+    const extend = actions.find((action) => action.title === "Suppress EC1001 (undefined-name) for this line")!;
+    assert.equal(apply(lines, extend.edit!.changes!["file:///suppress.dla"])[1], "  // ec-ignore-next-line EC3001, EC1001");
+    const remove = actions.find((action) => action.title === "Remove unused suppression for 'EC3001'")!;
+    assert.deepEqual(apply(lines, remove.edit!.changes!["file:///suppress.dla"]), [
+      "job /data/transform/example/default/x64(a) out:",
+      "  missing + a -> out",
+      "end",
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { strict as assert } from "assert";
+import { CodeAction, Diagnostic, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { buildUndefinedNameFixes, editDistance, rankSuggestions } from "../src/undefinedNameFixes";
+import { RemoteContractSpec } from "../src/gatewayClient";
+import { parseText } from "../src/lang/parser";
+import { resolveProgram } from "../src/lang/resolver";
+
+const SPECS = {
+  "/data/transform/example/default/x64": {
+    name: "/data/transform/example/default/x64",
+    requirements: [
+      { name: "value", type: "integer" },
+      { name: "Scale Factor", type: "integer" },
+      { name: "limit", type: "integer" },
+    ],
+    obligations: [{ name: "result", type: "integer" }],
+  },
+} as unknown as Record<string, RemoteContractSpec>;
+
+function fixes(lines: string[]): { document: TextDocument; actions: CodeAction[] } {
+  const text = lines.join("\n");
+  const document = TextDocument.create("file:///names.dla", "emergent", 1, text);
+  const diagnostics = resolveProgram(parseText(text).program).diagnostics.map((diagnostic) =>
+    Diagnostic.create(diagnostic.range, diagnostic.message)
+  );
+  return { document, actions: buildUndefinedNameFixes(document, diagnostics, SPECS) };
+}
+
+function apply(document: TextDocument, action: CodeAction): string {
+  return TextDocument.applyEdits(document, (action.edit?.changes?.[document.uri] ?? []) as TextEdit[]);
+}
+
+describe("undefined name quick fixes", () => {
+  it("measures transpositions as a single edit", () => {
+    assert.equal(editDistance("vaule", "value"), 1);
+    assert.equal(editDistance("total", "totals"), 1);
+    assert.equal(editDistance("a", "b"), 1);
+  });
+
+  it("ranks close names and ignores distant or single-letter ones", () => {
+    assert.deepEqual(rankSuggestions("vaule", ["value", "values", "len", "valve"]), ["value"]);
+    assert.deepEqual(rankSuggestions("a", ["b", "c"]), []);
+    assert.deepEqual(rankSuggestions("lenght", ["len", "length", "maxlen"]), ["length"]);
+  });
+
+  it("suggests visible labels and builtins in place of the undefined name", () => {
+    const { document, actions } = fixes([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(value, scale_factor) result:",
+      "  vaule + 1 -> total",
+      "  trnuc(total, 3) -> result",
+      "end",
+    ]);
+    assert.deepEqual(actions.map((action) => action.title), ["Change to 'value'", "Change to 'trunc'"]);
+    assert.equal(actions[0].isPreferred, true);
+    assert.equal(apply(document, actions[0]).split("\n")[2], "  value + 1 -> total");
+  });
+
+  it("declares a missing requirement label as a job parameter", () => {
+    const { document, actions } = fixes([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(value) result:",
+      "  value * scale_factor -> result",
+      "end",
+    ]);
+    const declare = actions.find((action) => action.title === "Declare 'scale_factor' as a parameter of the job");
+    assert.ok(declare);
+    assert.equal(apply(document, declare!).split("\n")[1], "job /data/transform/example/default/x64(value, scale_factor) result:");
+  });
+
+  it("declares a requirement at its position in the specification", () => {
+    const { document, actions } = fixes([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(value, limit) result:",
+      "  value * scale_factor + limit -> result",
+      "end",
+    ]);
+    const declare = actions.find((action) => action.title === "Declare 'scale_factor' as a parameter of the job");
+    assert.ok(declare);
+    assert.equal(apply(document, declare!).split("\n")[1], "job /data/transform/example/default/x64(value, scale_factor, limit) result:");
+  });
+
+  it("only declares names that match the job specification", () => {
+    const { actions } = fixes([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(value, scale_factor) result:",
+      "  value * unrelated -> result",
+      "end",
+    ]);
+    assert.ok(!actions.some((action) => action.title.startsWith("Declare")));
+  });
+
+  it("declares names in the innermost def header", () => {
+    const { document, actions } = fixes([
+      "defaults: data, default, x64, dao",
+      "job /data/transform/example/default/x64(value, scale_factor) result:",
+      "  def double(x) y:",
+      "    x + offset -> y",
+      "  end",
+      "  double(value) -> result",
+      "end",
+    ]);
+    const declare = actions.find((action) => action.title === "Declare 'offset' as a parameter of def 'double'");
+    assert.ok(declare);
+    assert.equal(apply(document, declare!).split("\n")[2], "  def double(x, offset) y:");
+  });
+});
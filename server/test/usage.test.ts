@@ -0,0 +1,54 @@
+import { strict as assert } from "assert";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectDiagnostics } from "../src/diagnostics";
+
+const USAGE_CODES = ["EC1005", "EC1006", "EC1007", "EC1008"];
+
+function usageFor(lines: string[]): string[] {
+  const document = TextDocument.create("file:///usage.dla", "emergent", 1, lines.join("\n"));
+  return collectDiagnostics(document, { maxNumberOfProblems: 100 })
+    .filter((diagnostic) => USAGE_CODES.includes(String(diagnostic.code)))
+    .map((diagnostic) => `${diagnostic.code} ${diagnostic.message}`);
+}
+
+describe("usage warnings", () => {
+  it("reports unread parameters and labels, uncalled defs and unassigned obligations", () => {
+    assert.deepEqual(
+      usageFor([
+        "job /data/transform/example/default/x64(a, b) out, extra:",
+        "  def helper(x) y:",
+        "    x -> y",
+        "  end",
+        "  a + 1 -> tmp",
+        "  a -> out",
+        "end",
+      ]),
+      [
+        "EC1005 Parameter 'b' is never read",
+        "EC1008 Obligation 'extra' is never assigned",
+        "EC1007 Def 'helper' is never called",
+        "EC1006 Label 'tmp' is assigned but never read",
+      ]
+    );
+  });
+
+  it("counts assignments in either branch and exempts names starting with an underscore", () => {
+    assert.deepEqual(
+      usageFor([
+        "job /data/transform/example/default/x64(a, _spare) out:",
+        "  a + 1 -> _scratch",
+        "  if a > 1 then",
+        "    a -> out",
+        "  else",
+        "    a + 1 -> out",
+        "  end",
+        "end",
+      ]),
+      []
+    );
+  });
+
+  it("stays quiet while the document has syntax errors", () => {
+    assert.deepEqual(usageFor(["job /data/transform/example/default/x64(a) out:", "  a -> tmp", "  \"unterminated", "end"]), []);
+  });
+});
@@ -0,0 +1,63 @@
+import { strict as assert } from "assert";
+import { SymbolKind } from "vscode-languageserver";
+import { WorkspaceSymbolIndex } from "../src/workspaceSymbols";
+
+const transformText = [
+  "job /data/transform/example/default/x64(a) out:",
+  "  def scale(p) r:",
+  "    p * 2 -> r",
+  "  end",
+  "  if a > 1 then",
+  "    def clamp(p) r:",
+  "      p -> r",
+  "    end",
+  "    clamp(a) -> out",
+  "  else",
+  "    scale(a) -> out",
+  "  end",
+  "end",
+].join("\n");
+const formatText = "job /data/format/text/default/x64(a) out:\n  sub new/integer@dao(a) -> out\nend";
+
+describe("workspace symbol index", () => {
+  it("indexes jobs and nested defs with their containing job", () => {
+    const index = new WorkspaceSymbolIndex();
+    index.update("file:///transform.dla", transformText);
+    const symbols = index.query("");
+    assert.deepEqual(
+      symbols.map((symbol) => [symbol.name, symbol.kind, symbol.containerName]),
+      [
+        ["/data/transform/example/default/x64", SymbolKind.Module, undefined],
+        ["scale", SymbolKind.Function, "/data/transform/example/default/x64"],
+        ["clamp", SymbolKind.Function, "/data/transform/example/default/x64"],
+      ]
+    );
+    assert.deepEqual(symbols[1].location.range.start, { line: 1, character: 6 });
+  });
+
+  it("matches classification and def name fragments case-insensitively", () => {
+    const index = new WorkspaceSymbolIndex();
+    index.update("file:///transform.dla", transformText);
+    index.update("file:///format.dla", formatText);
+    assert.deepEqual(index.query("FORMAT/text").map((symbol) => symbol.location.uri), ["file:///format.dla"]);
+    assert.deepEqual(index.query("sca").map((symbol) => symbol.name), ["scale"]);
+    assert.deepEqual(index.query("transex").map((symbol) => symbol.name), ["/data/transform/example/default/x64"]);
+  });
+
+  it("replaces and removes a file's symbols without touching other files", () => {
+    const index = new WorkspaceSymbolIndex();
+    index.update("file:///transform.dla", transformText);
+    index.update("file:///format.dla", formatText);
+    index.update("file:///transform.dla", "job /data/renamed/example/default/x64(a) out:\n  a -> out\nend");
+    assert.deepEqual(index.query("transform"), []);
+    assert.equal(index.query("renamed").length, 1);
+    index.remove("file:///format.dla");
+    assert.deepEqual(index.query("format"), []);
+  });
+
+  it("caps the number of results", () => {
+    const index = new WorkspaceSymbolIndex();
+    index.update("file:///transform.dla", transformText);
+    assert.equal(index.query("", 2).length, 2);
+  });
+});